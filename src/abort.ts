@@ -0,0 +1,25 @@
+/**
+ * AbortSignal helpers shared by the client and the media pipeline
+ */
+
+import { AbortError } from './errors'
+
+/**
+ * Throw an AbortError if the signal has already been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new AbortError()
+  }
+}
+
+/**
+ * Run a callback once when the signal aborts. Returns a function that removes the listener.
+ */
+export function onAbort(signal: AbortSignal | undefined, callback: () => void): () => void {
+  if (!signal) {
+    return () => undefined
+  }
+  signal.addEventListener('abort', callback, { once: true })
+  return () => signal.removeEventListener('abort', callback)
+}
@@ -3,13 +3,53 @@
  * (from Python client/api.py and client/models.py)
  */
 
-import axios, { AxiosInstance, AxiosError } from 'axios'
+import type { z } from 'zod'
 import { VERSION } from './version'
-import { ClientOptions, Credits } from './types'
-import { ApiError, InsufficientCreditsError, JobNotFoundError, ProcessingError } from './errors'
+import type {
+  ClientHooks,
+  ClientOptions,
+  ClientRequest,
+  RequestOptions,
+  StatusCallback,
+  StatusInfo,
+} from './types'
+import {
+  AbortError,
+  ApiError,
+  InsufficientCreditsError,
+  JobCancelledError,
+  JobNotFoundError,
+  JobStateError,
+  ProcessingError,
+  RateLimitError,
+  TransportError,
+} from './errors'
+import { RetryPolicy, sleep } from './retry'
+import { RequestThrottler, parseRateLimitHeaders, parseRetryAfter } from './rate-limit'
+import { onAbort, throwIfAborted } from './abort'
+import { FixedPolling, PollingStrategy } from './polling'
+import type { JobEventSource } from './webhooks/listener'
+import { defaultTransport } from './transport/default'
+import type { Transport, TransportRequest, TransportResponse } from './transport/types'
+import {
+  CreatedJob,
+  Credits,
+  Job,
+  JobState,
+  StartedJob,
+  WebhookDeliveries,
+  createdJobSchema,
+  createdUrlJobSchema,
+  creditsSchema,
+  jobListPageSchema,
+  jobSchema,
+  parseResponse,
+  startedJobSchema,
+  webhookDeliveriesSchema,
+} from './models'
 
 // ============================================================================
-// API MODEL INTERFACES (from Python client/models.py)
+// API REQUEST INTERFACES (from Python client/models.py)
 // ============================================================================
 
 export interface CreateJobFileUpload {
@@ -35,6 +75,21 @@ export interface BackgroundOptions {
     | 'lottie'
 }
 
+/**
+ * Video data accepted by uploadVideo()
+ */
+export type UploadBody = Blob | ReadableStream<Uint8Array> | Uint8Array | AsyncIterable<Uint8Array>
+
+/**
+ * Options for uploading a video to a job's signed URL
+ */
+export interface UploadVideoOptions extends RequestOptions {
+  /** Content type the job was created with */
+  contentType: CreateJobFileUpload['content_type']
+  /** Size in bytes; known for Blob and Uint8Array, and expected by signed URLs for streams */
+  contentLength?: number
+}
+
 export interface StartJobRequest {
   format?: 'mp4'
   model?: string
@@ -42,26 +97,52 @@ export interface StartJobRequest {
   webhook_url?: string
 }
 
-export interface JobStatus {
-  id: string
-  status: 'created' | 'uploaded' | 'processing' | 'completed' | 'failed'
-  filename: string
-  created_at: string
-  length_seconds?: number
-  thumbnail_url?: string
-  transparent_thumbnail_url?: string
-  processed_video_url?: string
-  processed_mask_url?: string
-  message?: string
-  background?: BackgroundOptions
-  output_format?: string
-  export_id?: string
+/**
+ * Options for waiting on job completion
+ */
+export interface WaitOptions {
+  /** Seconds between status polls (default: 2) */
+  pollSeconds?: number
+  /** Adaptive polling schedule; overrides pollSeconds and fallbackPollSeconds */
+  polling?: PollingStrategy
+  /** Give up after this many seconds */
+  timeout?: number
+  /** Called when the status or the estimated remaining time changes */
+  onStatus?: StatusCallback
+  /** Called after every status check that did not finish the job */
+  onPoll?: (status: Job, info: StatusInfo & { elapsedSeconds: number }) => void
+  signal?: AbortSignal
+  /** Webhook event source that wakes the wait up as soon as the job finishes */
+  events?: JobEventSource
+  /** Seconds between safety-net polls while listening to events (default: 30) */
+  fallbackPollSeconds?: number
 }
 
-export interface CreditBalance {
-  total_credits: number
-  remaining_credits: number
-  used_credits: number
+/**
+ * Filters for listing jobs
+ */
+export interface ListJobsOptions {
+  /** Only jobs in this status */
+  status?: JobState
+  /** Only jobs created at or after this time */
+  since?: Date | string
+  /** Stop after this many jobs (default: all) */
+  limit?: number
+  /** Jobs fetched per request (default: 100) */
+  pageSize?: number
+  signal?: AbortSignal
+}
+
+/**
+ * An API call, relative to the client's base URL
+ */
+interface ApiRequest {
+  method: TransportRequest['method']
+  path: string
+  query?: Record<string, string | number | undefined>
+  /** Sent as JSON */
+  body?: unknown
+  signal?: AbortSignal
 }
 
 // ============================================================================
@@ -72,172 +153,511 @@ export interface CreditBalance {
  * Client for interacting with the VideoBGRemover API
  */
 export class VideoBGRemoverClient {
-  private readonly httpClient: AxiosInstance
+  /** Transport for API calls, also used by the importer for signed-URL uploads and downloads */
+  public readonly transport: Transport
   private readonly baseUrl: string
+  private readonly headers: Record<string, string>
   private readonly timeout: number
+  /** Retry policy for API calls, also applied by the importer to result downloads */
+  public readonly retryPolicy: RetryPolicy
+  private readonly throttler: RequestThrottler
+  private readonly hooks: ClientHooks
+  private readonly debugLog?: (message: string) => void
 
-  constructor(apiKey: string, options: ClientOptions = {}) {
+  constructor(
+    private readonly apiKey: string,
+    options: ClientOptions = {}
+  ) {
     this.baseUrl = options.baseUrl || 'https://api.videobgremover.com'
     this.timeout = options.timeout || 30000
+    this.retryPolicy = options.retry === false ? RetryPolicy.none() : new RetryPolicy(options.retry)
+    this.throttler = new RequestThrottler(options.rateLimit)
+    this.hooks = options.hooks || {}
+    if (options.debug) {
+      this.debugLog =
+        typeof options.debug === 'function' ? options.debug : message => console.debug(message)
+    }
 
-    // Create axios instance with default config
-    this.httpClient = axios.create({
-      baseURL: this.baseUrl,
-      timeout: this.timeout,
-      headers: {
-        'X-Api-Key': apiKey,
-        'User-Agent': `videobgremover-node/${VERSION}`,
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-    })
-
-    // Add response interceptor for error handling
-    this.httpClient.interceptors.response.use(
-      response => response,
-      error => this.handleApiError(error)
-    )
+    this.transport = options.transport || defaultTransport()
+    this.headers = {
+      'X-Api-Key': apiKey,
+      'User-Agent': `videobgremover-node/${VERSION}`,
+      'Content-Type': 'application/json',
+      ...options.headers,
+    }
   }
 
   /**
    * Get credit balance
    */
-  async credits(): Promise<Credits> {
-    const response = await this.httpClient.get<CreditBalance>('/v1/credits')
-    return {
-      totalCredits: response.data.total_credits,
-      remainingCredits: response.data.remaining_credits,
-      usedCredits: response.data.used_credits,
-    }
+  async credits(options: RequestOptions = {}): Promise<Credits> {
+    return this.request(
+      { method: 'GET', path: '/v1/credits', signal: options.signal },
+      creditsSchema
+    )
   }
 
   /**
    * Create a job for file upload (matches Python create_job_file)
    */
-  async createJobFile(
-    req: CreateJobFileUpload
-  ): Promise<{ id: string; upload_url: string; expires_at: string }> {
-    const response = await this.httpClient.post('/v1/jobs', req)
-    return response.data
+  async createJobFile(req: CreateJobFileUpload, options: RequestOptions = {}): Promise<CreatedJob> {
+    return this.request(
+      { method: 'POST', path: '/v1/jobs', body: req, signal: options.signal },
+      createdJobSchema,
+      false
+    )
   }
 
   /**
    * Create a job for URL download (matches Python create_job_url)
    */
-  async createJobUrl(req: CreateJobUrlDownload): Promise<{ id: string }> {
-    const response = await this.httpClient.post('/v1/jobs', req)
-    return response.data
+  async createJobUrl(
+    req: CreateJobUrlDownload,
+    options: RequestOptions = {}
+  ): Promise<{ id: string }> {
+    return this.request(
+      { method: 'POST', path: '/v1/jobs', body: req, signal: options.signal },
+      createdUrlJobSchema,
+      false
+    )
+  }
+
+  /**
+   * Upload the video for a job created with createJobFile() to its signed URL.
+   * Works without touching the file system, e.g. with a request body in an edge function.
+   *
+   * @example
+   * ```typescript
+   * const job = await client.createJobFile({ filename: 'clip.mp4', content_type: 'video/mp4' })
+   * await client.uploadVideo(job.uploadUrl, await request.blob(), { contentType: 'video/mp4' })
+   * await client.startJob(job.id)
+   * ```
+   */
+  async uploadVideo(
+    uploadUrl: string,
+    body: UploadBody,
+    options: UploadVideoOptions
+  ): Promise<void> {
+    const contentLength =
+      options.contentLength ??
+      (body instanceof Uint8Array ? body.byteLength : 'size' in body ? body.size : undefined)
+
+    const response = await this.transport.request({
+      method: 'PUT',
+      url: uploadUrl,
+      headers: {
+        'Content-Type': options.contentType,
+        ...(contentLength !== undefined && { 'Content-Length': String(contentLength) }),
+      },
+      body,
+      timeout: 300000, // 5 minute timeout for uploads
+      // Signed URLs never redirect
+      followRedirects: false,
+      signal: options.signal,
+    })
+    if (!isSuccess(response.status)) {
+      throw new ApiError(
+        `Failed to upload video: request failed with status code ${response.status}`,
+        response.status
+      )
+    }
   }
 
   /**
    * Start processing a job (matches Python start_job)
    */
-  async startJob(jobId: string, req?: StartJobRequest): Promise<JobStatus> {
-    const response = await this.httpClient.post(`/v1/jobs/${jobId}/start`, req || {})
-    return response.data
+  async startJob(
+    jobId: string,
+    req?: StartJobRequest,
+    options: RequestOptions = {}
+  ): Promise<StartedJob> {
+    return this.request(
+      { method: 'POST', path: `/v1/jobs/${jobId}/start`, body: req || {}, signal: options.signal },
+      startedJobSchema,
+      false
+    )
   }
 
   /**
    * Get job status (matches Python status method)
    */
-  async status(jobId: string): Promise<JobStatus> {
-    const response = await this.httpClient.get(`/v1/jobs/${jobId}/status`)
-    return response.data
+  async status(jobId: string, options: RequestOptions = {}): Promise<Job> {
+    return this.request(
+      { method: 'GET', path: `/v1/jobs/${jobId}/status`, signal: options.signal },
+      jobSchema
+    )
+  }
+
+  /**
+   * List jobs, newest first, fetching further pages as the iteration goes on
+   *
+   * @example
+   * ```typescript
+   * for await (const job of client.listJobs({ status: 'processing', since: yesterday })) {
+   *   console.log(job.id, job.createdAt)
+   * }
+   * ```
+   */
+  async *listJobs(options: ListJobsOptions = {}): AsyncGenerator<Job, void, undefined> {
+    const { status, since, limit, pageSize = 100, signal } = options
+    let cursor: string | undefined
+    let count = 0
+
+    while (limit === undefined || count < limit) {
+      const page = await this.request(
+        {
+          method: 'GET',
+          path: '/v1/jobs',
+          query: {
+            status,
+            since: since instanceof Date ? since.toISOString() : since,
+            limit: limit === undefined ? pageSize : Math.min(pageSize, limit - count),
+            cursor,
+          },
+          signal,
+        },
+        jobListPageSchema
+      )
+
+      for (const job of page.jobs) {
+        if (limit !== undefined && count >= limit) {
+          return
+        }
+        count++
+        yield job
+      }
+
+      if (!page.nextCursor || page.jobs.length === 0) {
+        return
+      }
+      cursor = page.nextCursor
+    }
+  }
+
+  /**
+   * Cancel a job that has not finished processing.
+   * Throws JobStateError if the job already completed or failed.
+   */
+  async cancelJob(jobId: string, options: RequestOptions = {}): Promise<Job> {
+    return this.request(
+      { method: 'POST', path: `/v1/jobs/${jobId}/cancel`, signal: options.signal },
+      jobSchema
+    )
+  }
+
+  /**
+   * Delete a job together with its uploaded video and stored outputs.
+   * Throws JobStateError while the job is still processing; cancel it first.
+   */
+  async deleteJob(jobId: string, options: RequestOptions = {}): Promise<void> {
+    await this.send({ method: 'DELETE', path: `/v1/jobs/${jobId}`, signal: options.signal })
   }
 
   /**
    * Wait for a job to complete (matches Python wait method)
+   *
+   * With an event source, the status is re-checked as soon as a completion or
+   * failure webhook arrives, and polled only every fallbackPollSeconds otherwise.
    */
-  async wait(
-    jobId: string,
-    options: {
-      pollSeconds?: number
-      timeout?: number
-      onStatus?: (status: string) => void
-    } = {}
-  ): Promise<JobStatus> {
-    const { pollSeconds = 2.0, timeout, onStatus } = options
+  async wait(jobId: string, options: WaitOptions = {}): Promise<Job> {
+    const { timeout, onStatus, onPoll, signal, events, fallbackPollSeconds = 30 } = options
+    const polling =
+      options.polling ??
+      new FixedPolling(events ? fallbackPollSeconds : (options.pollSeconds ?? 2.0))
     const startTime = Date.now()
     let lastStatus: string | null = null
+    let lastEstimate: number | undefined
+
+    const wakeup = new JobWakeup()
+    const unsubscribe = events?.subscribe(jobId, event => {
+      if (event.type !== 'job.started') {
+        wakeup.notify()
+      }
+    })
+
+    try {
+      return await this._pollUntilDone(jobId, polling, wakeup, signal, (status, estimate) => {
+        // Check timeout
+        if (timeout && Date.now() - startTime > timeout * 1000) {
+          throw new Error(`Job ${jobId} did not complete within ${timeout} seconds`)
+        }
+
+        const info = {
+          estimatedTimeRemaining: estimate,
+          elapsedSeconds: (Date.now() - startTime) / 1000,
+        }
+        onPoll?.(status, info)
+
+        // Call status callback only when status or estimate changes
+        if (onStatus && (status.status !== lastStatus || estimate !== lastEstimate)) {
+          onStatus(status.status, info)
+          lastStatus = status.status
+          lastEstimate = estimate
+        }
+      })
+    } finally {
+      unsubscribe?.()
+    }
+  }
 
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      const status = await this.status(jobId)
+  /**
+   * Poll a job until it completes or fails, calling onPending for every other status
+   * with the strategy's estimate of the remaining seconds
+   */
+  private async _pollUntilDone(
+    jobId: string,
+    polling: PollingStrategy,
+    wakeup: JobWakeup,
+    signal: AbortSignal | undefined,
+    onPending: (status: Job, estimatedTimeRemaining?: number) => void
+  ): Promise<Job> {
+    const startTime = Date.now()
+    for (let attempt = 1; ; attempt++) {
+      wakeup.reset()
+      const status = await this.status(jobId, { signal })
 
       if (status.status === 'completed') {
         return status
       } else if (status.status === 'failed') {
         throw new ProcessingError(status.message || 'Job processing failed', jobId)
+      } else if (status.status === 'cancelled') {
+        throw new JobCancelledError(jobId)
       }
 
-      // Check timeout
-      if (timeout && Date.now() - startTime > timeout * 1000) {
-        throw new Error(`Job ${jobId} did not complete within ${timeout} seconds`)
-      }
-
-      // Call status callback only when status changes
-      if (onStatus && status.status !== lastStatus) {
-        onStatus(status.status)
-        lastStatus = status.status
-      }
+      const context = { attempt, elapsedMs: Date.now() - startTime, status }
+      const estimate = polling.estimateRemainingSeconds?.(context)
+      onPending(status, estimate === undefined ? undefined : Math.round(estimate))
 
       // Wait before next poll
-      await new Promise(resolve => setTimeout(resolve, pollSeconds * 1000))
+      await wakeup.sleep(polling.nextPollSeconds(context) * 1000, signal)
     }
   }
 
   /**
    * Get webhook delivery history for a job
    */
-  async webhookDeliveries(videoId: string): Promise<{
-    video_id: string
-    total_deliveries: number
-    deliveries: Array<{
-      event_type: string
-      webhook_url: string
-      attempt_number: number
-      delivery_status: string
-      http_status_code: number | null
-      error_message: string | null
-      scheduled_at: string
-      delivered_at: string | null
-      payload: {
-        job_id: string
-        user_id: string
-        status: 'started' | 'completed' | 'failed'
-        file_name?: string
-        error_message?: string
-        source?: 'api' | 'web'
+  async webhookDeliveries(
+    videoId: string,
+    options: RequestOptions = {}
+  ): Promise<WebhookDeliveries> {
+    return this.request(
+      {
+        method: 'GET',
+        path: '/v1/webhooks/deliveries',
+        query: { video_id: videoId },
+        signal: options.signal,
+      },
+      webhookDeliveriesSchema
+    )
+  }
+
+  /**
+   * Send a request and validate the response against its model schema.
+   * Invalid responses throw ResponseValidationError and are never retried.
+   */
+  private async request<S extends z.ZodTypeAny>(
+    apiRequest: ApiRequest,
+    schema: S,
+    idempotent = true
+  ): Promise<z.output<S>> {
+    const data = await this.send(apiRequest, idempotent)
+    return parseResponse(schema, data, `${apiRequest.method} ${apiRequest.path}`)
+  }
+
+  /**
+   * Send a request, retrying transient failures according to the retry policy.
+   * Pass idempotent=false for calls that must not run twice on the server.
+   */
+  private async send(apiRequest: ApiRequest, idempotent = true): Promise<unknown> {
+    const { signal } = apiRequest
+    for (let attempt = 1; ; attempt++) {
+      const release = await this.throttler.acquire(signal)
+      try {
+        const response = await this._attempt(apiRequest, attempt)
+        this.throttler.update(parseRateLimitHeaders(response.headers))
+        if (isSuccess(response.status)) {
+          return response.data
+        }
+
+        // Slow every request down instead of hammering the API while rate limited
+        if (response.status === 429) {
+          const retryAfter = parseRetryAfter(response.headers)
+          this.throttler.pauseFor(
+            retryAfter !== undefined ? retryAfter * 1000 : this.retryPolicy.delay(attempt)
+          )
+        }
+
+        if (!this.retryPolicy.shouldRetry(attempt, { status: response.status }, idempotent)) {
+          throw this.toApiError(response)
+        }
+      } catch (error) {
+        if (error instanceof AbortError || signal?.aborted) {
+          throw new AbortError()
+        }
+        // API errors are final here; errors thrown by hooks are the caller's own
+        if (!(error instanceof TransportError)) {
+          throw error
+        }
+        if (!this.retryPolicy.shouldRetry(attempt, { code: error.code }, idempotent)) {
+          throw new ApiError('Network error: ' + error.message)
+        }
+      } finally {
+        release()
+      }
+
+      // The throttler also holds the next attempt back until Retry-After has passed
+      await sleep(this.retryPolicy.delay(attempt), signal)
+    }
+  }
+
+  /**
+   * Send one attempt of a request between the before-request and after-response hooks
+   */
+  private async _attempt(apiRequest: ApiRequest, attempt: number): Promise<TransportResponse> {
+    const request: ClientRequest = {
+      method: apiRequest.method,
+      url: this._url(apiRequest),
+      headers: {},
+      body: apiRequest.body,
+      attempt,
+    }
+    await this.hooks.beforeRequest?.(request)
+
+    const started = Date.now()
+    let response: TransportResponse | undefined
+    let error: unknown
+    try {
+      response = await this.transport.request({
+        method: apiRequest.method,
+        url: request.url,
+        headers: { ...this.headers, ...request.headers },
+        body: apiRequest.body === undefined ? undefined : JSON.stringify(apiRequest.body),
+        timeout: this.timeout,
+        signal: apiRequest.signal,
+      })
+      if (!isSuccess(response.status)) {
+        error = this.toApiError(response)
       }
-      created_at: string
-    }>
-  }> {
-    const response = await this.httpClient.get(`/v1/webhooks/deliveries?video_id=${videoId}`)
-    return response.data
+      return response
+    } catch (caught) {
+      error = caught
+      throw caught
+    } finally {
+      const durationMs = Date.now() - started
+      const outcome = response
+        ? String(response.status)
+        : `failed: ${(error as Error)?.message ?? error}`
+      this.debugLog?.(
+        this._redact(
+          `[videobgremover] ${request.method} ${request.url} -> ${outcome} (${durationMs}ms` +
+            (attempt > 1 ? `, attempt ${attempt})` : ')')
+        )
+      )
+      await this.hooks.afterResponse?.({
+        request,
+        status: response?.status,
+        headers: response?.headers ?? {},
+        durationMs,
+        error,
+      })
+    }
   }
 
   /**
-   * Handle API errors and convert to appropriate error types
+   * Absolute URL of an API call, with empty query parameters left out
    */
-  private handleApiError(error: AxiosError): never {
-    if (!error.response) {
-      throw new ApiError('Network error: ' + error.message)
+  private _url({ path, query = {} }: ApiRequest): string {
+    const params = new URLSearchParams()
+    for (const [name, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        params.append(name, String(value))
+      }
     }
+    const search = params.toString()
+    return `${this.baseUrl.replace(/\/+$/, '')}${path}${search ? `?${search}` : ''}`
+  }
+
+  /**
+   * Mask the API key wherever it appears in a log line
+   */
+  private _redact(text: string): string {
+    return this.apiKey ? text.split(this.apiKey).join('[REDACTED]') : text
+  }
 
-    const { status, data } = error.response
-    const message = (data as { error?: string })?.error || error.message
+  /**
+   * Convert an error response to the matching error type
+   */
+  private toApiError(response: TransportResponse): ApiError {
+    const { status, data, headers } = response
+    const message =
+      (data as { error?: string } | undefined)?.error || `Request failed with status code ${status}`
 
     switch (status) {
       case 401:
-        throw new ApiError('Invalid API key', 401, 'UNAUTHORIZED')
+        return new ApiError('Invalid API key', 401, 'UNAUTHORIZED')
       case 402:
-        throw new InsufficientCreditsError(message)
+        return new InsufficientCreditsError(message)
       case 404:
-        throw new JobNotFoundError(message)
+        return new JobNotFoundError(message)
+      case 409:
+        return new JobStateError(message)
+      case 429:
+        return new RateLimitError(message, parseRetryAfter(headers), parseRateLimitHeaders(headers))
       case 500:
-        throw new ProcessingError(message)
+        return new ProcessingError(message)
       default:
-        throw new ApiError(message, status)
+        return new ApiError(message, status)
     }
   }
 }
+
+function isSuccess(status: number): boolean {
+  return status >= 200 && status < 300
+}
+
+/**
+ * Poll delay that ends early when a webhook event arrives
+ */
+class JobWakeup {
+  private notified = false
+  private wake?: () => void
+
+  notify(): void {
+    this.notified = true
+    this.wake?.()
+  }
+
+  reset(): void {
+    this.notified = false
+  }
+
+  /**
+   * Sleep for ms, or not at all if an event arrived since the last reset
+   */
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    throwIfAborted(signal)
+    if (this.notified) {
+      return Promise.resolve()
+    }
+
+    return new Promise((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timer)
+        removeListener()
+        this.wake = undefined
+      }
+      const timer = setTimeout(() => {
+        finish()
+        resolve()
+      }, ms)
+      const removeListener = onAbort(signal, () => {
+        finish()
+        reject(new AbortError())
+      })
+      this.wake = () => {
+        finish()
+        resolve()
+      }
+    })
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * VideoBGRemover API client for edge and serverless runtimes
+ *
+ * Client-only entry point (`@videobgremover/sdk/client`) without Node built-ins or the
+ * FFmpeg-backed media modules. Requests go through FetchTransport unless another
+ * transport is passed.
+ *
+ * @example
+ * ```typescript
+ * import { VideoBGRemoverClient } from '@videobgremover/sdk/client'
+ *
+ * const client = new VideoBGRemoverClient(env.VIDEOBGREMOVER_API_KEY)
+ * const job = await client.createJobFile({ filename: 'clip.mp4', content_type: 'video/mp4' })
+ * await client.uploadVideo(job.uploadUrl, request.body!, {
+ *   contentType: 'video/mp4',
+ *   contentLength: Number(request.headers.get('content-length')),
+ * })
+ * await client.startJob(job.id, { webhook_url: 'https://example.com/webhooks/videobgremover' })
+ * ```
+ */
+
+// Version
+export { VERSION } from './version'
+
+// Core client
+export { VideoBGRemoverClient } from './client'
+export { FixedPolling, ExponentialPolling, LengthAwarePolling } from './polling'
+export type {
+  PollingStrategy,
+  PollContext,
+  ExponentialPollingOptions,
+  LengthAwarePollingOptions,
+} from './polling'
+
+// HTTP transports
+export { FetchTransport } from './transport/fetch'
+export { defaultTransport, setDefaultTransport } from './transport/default'
+export type { FetchTransportOptions } from './transport/fetch'
+export type {
+  Transport,
+  TransportBody,
+  TransportRequest,
+  TransportResponse,
+} from './transport/types'
+
+// Error classes
+export {
+  ApiError,
+  InsufficientCreditsError,
+  JobNotFoundError,
+  JobCancelledError,
+  JobStateError,
+  ProcessingError,
+  RateLimitError,
+  VideoBGRemoverError,
+  ValidationError,
+  AbortError,
+  ResponseValidationError,
+  TransportError,
+} from './errors'
+export type { RateLimitInfo } from './errors'
+
+// Type exports for TypeScript users
+export type {
+  ClientOptions,
+  ClientHooks,
+  ClientRequest,
+  ClientResponse,
+  RetryOptions,
+  RateLimitOptions,
+  RequestOptions,
+  StatusCallback,
+  StatusInfo,
+  WebhookPayload,
+} from './types'
+
+export type {
+  CreateJobFileUpload,
+  CreateJobUrlDownload,
+  BackgroundOptions,
+  StartJobRequest,
+  UploadBody,
+  UploadVideoOptions,
+  WaitOptions,
+  ListJobsOptions,
+} from './client'
+
+// API response models
+export type {
+  Job,
+  JobState,
+  StartedJob,
+  CreatedJob,
+  Credits,
+  WebhookDelivery,
+  WebhookDeliveries,
+  JobStatus,
+  CreditBalance,
+  JobListPage,
+} from './models'
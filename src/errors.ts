@@ -37,6 +37,49 @@ export class JobNotFoundError extends ApiError {
   }
 }
 
+/**
+ * Error thrown when an API response does not match the expected shape
+ */
+export class ResponseValidationError extends ApiError {
+  constructor(
+    message: string,
+    /** Method and URL of the request, e.g. "GET /v1/jobs/job_1/status" */
+    public readonly endpoint: string,
+    /** Each mismatch as "field.path: problem" */
+    public readonly issues: string[]
+  ) {
+    super(message, undefined, 'INVALID_RESPONSE')
+    this.name = 'ResponseValidationError'
+  }
+}
+
+/**
+ * Rate limit state reported by the API through response headers
+ */
+export interface RateLimitInfo {
+  /** Maximum number of requests allowed in the current window */
+  limit?: number
+  /** Requests left in the current window */
+  remaining?: number
+  /** When the current window resets */
+  reset?: Date
+}
+
+/**
+ * Error thrown when the API rejects a request with 429 Too Many Requests
+ */
+export class RateLimitError extends ApiError {
+  constructor(
+    message = 'Rate limit exceeded',
+    /** Seconds to wait before retrying, parsed from the Retry-After header */
+    public readonly retryAfter?: number,
+    public readonly rateLimit: RateLimitInfo = {}
+  ) {
+    super(message, 429, 'RATE_LIMITED')
+    this.name = 'RateLimitError'
+  }
+}
+
 /**
  * Error thrown when video processing fails
  */
@@ -50,6 +93,27 @@ export class ProcessingError extends ApiError {
   }
 }
 
+/**
+ * Error thrown when waiting on a job that was cancelled
+ */
+export class JobCancelledError extends ProcessingError {
+  constructor(jobId: string) {
+    super(`Job was cancelled: ${jobId}`, jobId)
+    this.name = 'JobCancelledError'
+  }
+}
+
+/**
+ * Error thrown when a job cannot be cancelled or deleted in its current state,
+ * e.g. cancelling a completed job or deleting one that is still processing
+ */
+export class JobStateError extends ApiError {
+  constructor(message: string) {
+    super(message, 409, 'INVALID_JOB_STATE')
+    this.name = 'JobStateError'
+  }
+}
+
 /**
  * General VideoBGRemover SDK error
  */
@@ -75,3 +139,53 @@ export class ValidationError extends VideoBGRemoverError {
     this.name = 'ValidationError'
   }
 }
+
+/**
+ * Error thrown when an operation is cancelled through an AbortSignal
+ */
+export class AbortError extends VideoBGRemoverError {
+  constructor(message = 'The operation was aborted') {
+    super(message, 'ABORTED')
+    this.name = 'AbortError'
+  }
+}
+
+/**
+ * Error thrown by a transport when a request gets no HTTP response
+ */
+export class TransportError extends VideoBGRemoverError {
+  constructor(
+    message: string,
+    /** Network error code such as ECONNRESET or ETIMEDOUT, when known */
+    code?: string
+  ) {
+    super(message, code)
+    this.name = 'TransportError'
+  }
+}
+
+/**
+ * Error thrown when a webhook request fails signature verification
+ */
+export class WebhookSignatureError extends VideoBGRemoverError {
+  constructor(message = 'Invalid webhook signature') {
+    super(message, 'INVALID_SIGNATURE')
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+/**
+ * Error thrown when starting a video would exceed the configured credit budget
+ */
+export class CreditBudgetExceededError extends VideoBGRemoverError {
+  constructor(
+    public readonly requiredCredits: number,
+    public readonly remainingBudget: number
+  ) {
+    super(
+      `Video needs about ${requiredCredits} credits but only ${remainingBudget} remain in the budget`,
+      'BUDGET_EXCEEDED'
+    )
+    this.name = 'CreditBudgetExceededError'
+  }
+}
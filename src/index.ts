@@ -18,11 +18,34 @@
  * ```
  */
 
+import { AxiosTransport } from './transport/axios'
+import { setDefaultTransport } from './transport/default'
+
+// Clients use axios in Node unless given another transport
+setDefaultTransport(() => new AxiosTransport())
+
 // Version
 export { VERSION } from './version'
 
 // Core client
 export { VideoBGRemoverClient } from './client'
+export { FixedPolling, ExponentialPolling, LengthAwarePolling } from './polling'
+export type {
+  PollingStrategy,
+  PollContext,
+  ExponentialPollingOptions,
+  LengthAwarePollingOptions,
+} from './polling'
+
+// HTTP transports
+export { AxiosTransport, FetchTransport, defaultTransport, setDefaultTransport } from './transport'
+export type {
+  Transport,
+  TransportBody,
+  TransportRequest,
+  TransportResponse,
+  FetchTransportOptions,
+} from './transport'
 
 // Media classes
 export {
@@ -42,8 +65,61 @@ export {
   RemoveBGOptions,
   Prefer,
   Model,
+  JobJournal,
+  ResultCache,
+  BatchProcessor,
+  CreditBudget,
+  estimateCredits,
+  probeVideo,
+  validateVideo,
+} from './media'
+export type {
+  RemoveBackgroundOptions,
+  ResumeJobOptions,
+  VideoContentType,
+  VideoDataOptions,
+  JournalEntry,
+  JournalState,
+  RecoveredJob,
+  ResultCacheOptions,
+  CachedResult,
+  BatchOptions,
+  BatchConcurrency,
+  BatchItemResult,
+  CreditEstimate,
+  CreditEstimateOptions,
+  VideoProbe,
+  ValidationLimits,
+  ValidateVideoOptions,
 } from './media'
 
+// Webhooks
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  parseWebhookEvent,
+  constructWebhookEvent,
+  handleWebhookRequest,
+  createWebhookHandler,
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+  WebhookEventHub,
+  WebhookListener,
+} from './webhooks'
+export type {
+  WebhookEventType,
+  WebhookEvent,
+  JobStartedEvent,
+  JobCompletedEvent,
+  JobFailedEvent,
+  WebhookVerifyOptions,
+  WebhookHandlerOptions,
+  WebhookResponse,
+  JobEventSource,
+  WebhookListenerOptions,
+} from './webhooks'
+
 // Types and enums
 export { BackgroundType, TransparentFormat, Anchor, SizeMode } from './types'
 export type { LayerDict, AudioInput, SizeParams } from './types'
@@ -53,20 +129,43 @@ export {
   ApiError,
   InsufficientCreditsError,
   JobNotFoundError,
+  JobCancelledError,
+  JobStateError,
   ProcessingError,
+  RateLimitError,
   VideoBGRemoverError,
   ValidationError,
+  AbortError,
+  WebhookSignatureError,
+  CreditBudgetExceededError,
+  ResponseValidationError,
+  TransportError,
 } from './errors'
+export type { RateLimitInfo } from './errors'
 
 // Type exports for TypeScript users
 export type {
   ClientOptions,
-  Credits,
+  ClientHooks,
+  ClientRequest,
+  ClientResponse,
+  RetryOptions,
+  RateLimitOptions,
+  RequestOptions,
   LayerHandle,
   StatusCallback,
+  StatusInfo,
+  UploadProgress,
+  UploadProgressCallback,
+  DownloadProgress,
+  DownloadProgressCallback,
+  ResumableUploadOptions,
   VideoSource,
   BackgroundSource,
   ProcessingStatus,
+  ProgressEvent,
+  ProgressCallback,
+  WebhookPayload,
 } from './types'
 
 // Re-export API models for advanced users
@@ -75,6 +174,22 @@ export type {
   CreateJobUrlDownload,
   BackgroundOptions,
   StartJobRequest,
+  UploadBody,
+  UploadVideoOptions,
+  WaitOptions,
+  ListJobsOptions,
+} from './client'
+
+// API response models
+export type {
+  Job,
+  JobState,
+  StartedJob,
+  CreatedJob,
+  Credits,
+  WebhookDelivery,
+  WebhookDeliveries,
   JobStatus,
   CreditBalance,
-} from './client'
+  JobListPage,
+} from './models'
@@ -9,13 +9,111 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as os from 'os'
 import { execSync } from 'child_process'
-import axios from 'axios'
+import { Transform } from 'stream'
+import { pipeline } from 'stream/promises'
 import AdmZip from 'adm-zip'
-import { Video } from './video'
+import { Video, RemoveBackgroundOptions, VideoContentType } from './video'
 import { Foreground } from './foreground'
-import { VideoBGRemoverClient, StartJobRequest, JobStatus } from '../client'
-import { RemoveBGOptions, Prefer } from '../types'
+import { VideoBGRemoverClient, StartJobRequest } from '../client'
+import type { Job } from '../models'
+import {
+  RemoveBGOptions,
+  Prefer,
+  StatusCallback,
+  StatusInfo,
+  UploadProgressCallback,
+  DownloadProgressCallback,
+  ResumableUploadOptions,
+  ProgressCallback,
+  ProcessingStatus,
+} from '../types'
+import {
+  AbortError,
+  ApiError,
+  InsufficientCreditsError,
+  JobCancelledError,
+  ProcessingError,
+} from '../errors'
+import { throwIfAborted } from '../abort'
+import { failureOf, sleep } from '../retry'
+import type { Transport, TransportResponse } from '../transport/types'
 import { MediaContext } from './context'
+import { ResumableUploader } from './_resumable_upload'
+import type { JobEventSource } from '../webhooks/listener'
+import type { PollingStrategy } from '../polling'
+import type { JobJournal } from './journal'
+import { ResultCache } from './cache'
+import type { RequestThrottler } from '../rate-limit'
+import { CreditBudget, estimateCredits } from './credits'
+import { ValidationLimits, VideoProbe, checkSize, validateVideo } from './validation'
+
+/** Size of the chunks buffers are uploaded in when progress is reported */
+const UPLOAD_CHUNK_SIZE = 1024 * 1024
+
+/**
+ * Per-call settings for Importer.removeBackground
+ */
+export interface ImportOptions {
+  waitPollSeconds: number
+  onStatus?: StatusCallback
+  webhookUrl?: string
+  signal?: AbortSignal
+  onUploadProgress?: UploadProgressCallback
+  resumable?: ResumableUploadOptions
+  onDownloadProgress?: DownloadProgressCallback
+  events?: JobEventSource
+  fallbackPollSeconds?: number
+  polling?: PollingStrategy
+  onProgress?: ProgressCallback
+  journal?: JobJournal
+  cache?: ResultCache
+  stages?: PipelineStages
+  checkCredits?: boolean
+  creditsPerSecond?: number
+  budget?: CreditBudget
+  deleteAfterDownload?: boolean
+  validate?: ValidationLimits
+  /** Transparent format chosen up front, e.g. once for a whole batch */
+  format?: string
+}
+
+/**
+ * Concurrency limiters for the pipeline stages, shared by the items of a batch
+ */
+export interface PipelineStages {
+  /** Job creation and source upload */
+  upload: RequestThrottler
+  /** Starting the job until it completes */
+  job: RequestThrottler
+  /** Result download */
+  download: RequestThrottler
+}
+
+/**
+ * Per-call settings from public removeBackground-style options
+ */
+export function toImportOptions(opts: Omit<RemoveBackgroundOptions, 'client'>): ImportOptions {
+  const { waitPollSeconds = 2.0, resumable, validate = true } = opts
+  return {
+    waitPollSeconds,
+    polling: opts.polling,
+    onStatus: opts.onStatus,
+    onProgress: opts.onProgress,
+    webhookUrl: opts.webhookUrl,
+    signal: opts.signal,
+    onUploadProgress: opts.onUploadProgress,
+    resumable: resumable === true ? {} : resumable || undefined,
+    onDownloadProgress: opts.onDownloadProgress,
+    events: opts.events,
+    fallbackPollSeconds: opts.fallbackPollSeconds,
+    journal: opts.journal,
+    cache: opts.cache,
+    checkCredits: opts.checkCredits,
+    creditsPerSecond: opts.creditsPerSecond,
+    deleteAfterDownload: opts.deleteAfterDownload,
+    validate: validate === true ? {} : validate || undefined,
+  }
+}
 
 /**
  * Internal importer for handling API operations (matches Python Importer)
@@ -30,18 +128,282 @@ export class Importer {
     video: Video,
     client: VideoBGRemoverClient,
     options: RemoveBGOptions,
-    waitPollSeconds: number,
-    onStatus?: (status: string) => void,
-    webhookUrl?: string
+    importOptions: ImportOptions
   ): Promise<Foreground> {
+    const { onProgress, cache, stages, signal } = importOptions
+    throwIfAborted(signal)
+    if (video.kind === 'stream') {
+      // Fail on a reused stream before a job is created
+      video = video._claim()
+    }
+
     // Choose transparent format
-    const transparentFormat = this._chooseFormat(options)
+    const transparentFormat = importOptions.format ?? this.chooseFormat(options)
     this.ctx.logger.info(`Using transparent format: ${transparentFormat}`)
+    onProgress?.({ type: 'format_selected', format: transparentFormat })
 
-    // Create job
-    const jobId = await this._createJob(video, client)
+    // Spooling, hashing and probing run in the upload stage with job creation,
+    // so a batch holds no more sources in flight than it uploads
+    const created = await this._inStage(stages?.upload, signal, () =>
+      this._createFromSource(video, client, transparentFormat, options, importOptions)
+    )
+    if ('cached' in created) {
+      return created.cached
+    }
+    const { jobId, cacheKey, reserved } = created
     this.ctx.logger.info(`Created job: ${jobId}`)
 
+    let started = false
+    let foreground: Foreground
+    try {
+      foreground = await this._awaitResult(client, jobId, importOptions, async () => {
+        await this._startJob(client, jobId, transparentFormat, options, importOptions)
+        started = true
+      })
+    } catch (error) {
+      // Jobs are billed when started, so credits of a job that never ran are free again
+      if (!started) {
+        importOptions.budget?.release(reserved)
+      }
+      throw error
+    }
+
+    if (cache && cacheKey) {
+      try {
+        cache.put(cacheKey, jobId, foreground)
+      } catch (error) {
+        // The result is already paid for and downloaded; caching is best effort
+        this.ctx.logger.warn(`Failed to cache result of job ${jobId}: ${error}`)
+      }
+    }
+    return foreground
+  }
+
+  /**
+   * Create and upload a job for a source, or return an earlier result from the cache
+   */
+  private async _createFromSource(
+    video: Video,
+    client: VideoBGRemoverClient,
+    transparentFormat: string,
+    options: RemoveBGOptions,
+    importOptions: ImportOptions
+  ): Promise<{ cached: Foreground } | { jobId: string; cacheKey?: string; reserved: number }> {
+    const { onProgress, cache, signal } = importOptions
+
+    // Buffers and streams only go to disk when they have to be read locally
+    const source = this._needsSpool(video, importOptions) ? await this._spool(video, signal) : video
+    try {
+      // Reuse an earlier result for the same content, format and model
+      let cacheKey: string | undefined
+      if (cache && source.kind === 'file') {
+        cacheKey = cache.key(
+          await ResultCache.hashFile(source.src),
+          transparentFormat,
+          options.model
+        )
+        const cached = cache.get(cacheKey)
+        if (cached) {
+          this.ctx.logger.info(`Using cached result of job ${cached.jobId}`)
+          onProgress?.({ type: 'ready', jobId: cached.jobId, foreground: cached.foreground })
+          return { cached: cached.foreground }
+        }
+      }
+
+      // Reject sources the API cannot process before credits or upload time are spent
+      const probe = importOptions.validate && this._validate(source, importOptions.validate)
+
+      const reserved = await this._checkCredits(source, client, importOptions)
+
+      let jobId: string
+      try {
+        jobId = await this._createJob(source, client, probe?.contentType, {
+          ...importOptions,
+          onUploadProgress: onProgress
+            ? progress => {
+                importOptions.onUploadProgress?.(progress)
+                onProgress({ type: 'upload', ...progress })
+              }
+            : importOptions.onUploadProgress,
+        })
+      } catch (error) {
+        importOptions.budget?.release(reserved)
+        throw error
+      }
+      return { jobId, cacheKey, reserved }
+    } finally {
+      if (source !== video) {
+        fs.rmSync(source.src, { force: true })
+      }
+    }
+  }
+
+  /**
+   * Whether a buffer or stream video must be written to a file first: for hashing,
+   * probing and resumable uploads, or because the size of a stream is unknown
+   */
+  private _needsSpool(video: Video, importOptions: ImportOptions): boolean {
+    if (video.kind !== 'buffer' && video.kind !== 'stream') {
+      return false
+    }
+    const { cache, checkCredits, budget, resumable } = importOptions
+    return Boolean(cache || checkCredits || budget || resumable) || video.size === undefined
+  }
+
+  /**
+   * Write a buffer or stream video to MediaContext.tmp
+   */
+  private async _spool(video: Video, signal?: AbortSignal): Promise<Video> {
+    const filePath = this._tempPath(path.extname(video.src))
+    try {
+      await pipeline(this._chunks(video._takeData()), fs.createWriteStream(filePath), { signal })
+    } catch (error) {
+      fs.rmSync(filePath, { force: true })
+      throwIfAborted(signal)
+      throw error
+    }
+    this.ctx.logger.debug(`Spooled ${video.src} to ${filePath}`)
+    return video._spooledTo(filePath)
+  }
+
+  /**
+   * Chunks of a buffer or stream, counting bytes as they are consumed
+   */
+  private async *_chunks(
+    data: Uint8Array | AsyncIterable<Uint8Array>,
+    onChunk?: (byteLength: number) => void
+  ): AsyncGenerator<Uint8Array> {
+    if (data instanceof Uint8Array) {
+      for (let offset = 0; offset < data.byteLength; offset += UPLOAD_CHUNK_SIZE) {
+        const chunk = data.subarray(offset, offset + UPLOAD_CHUNK_SIZE)
+        onChunk?.(chunk.byteLength)
+        yield chunk
+      }
+      return
+    }
+    for await (const chunk of data) {
+      onChunk?.(chunk.byteLength)
+      yield chunk
+    }
+  }
+
+  /**
+   * Probe a local source and check it against the limits. Buffers and streams
+   * uploaded from memory are only checked for size; URLs are fetched by the API.
+   */
+  private _validate(video: Video, limits: ValidationLimits): VideoProbe | undefined {
+    if (video.kind === 'file') {
+      const probe = validateVideo(video.src, { ...limits, ctx: this.ctx })
+      this.ctx.logger.debug(
+        `Validated ${video.src}: ${probe.contentType || probe.formatName}, ${probe.videoCodec}, ` +
+          `${probe.durationSeconds?.toFixed(1) ?? 'unknown '}s`
+      )
+      return probe
+    }
+    if (video.size !== undefined) {
+      checkSize(video.size, limits.maxSizeBytes)
+    }
+    return undefined
+  }
+
+  /**
+   * Refuse to create a job the account balance or the batch budget cannot cover.
+   * Returns the credits reserved from the budget.
+   */
+  private async _checkCredits(
+    video: Video,
+    client: VideoBGRemoverClient,
+    importOptions: ImportOptions
+  ): Promise<number> {
+    const { checkCredits, budget, creditsPerSecond, signal } = importOptions
+    if (!checkCredits && !budget) {
+      return 0
+    }
+
+    const estimate = await estimateCredits(video, {
+      ctx: this.ctx,
+      creditsPerSecond,
+      transport: client.transport,
+      signal,
+    })
+    this.ctx.logger.info(
+      `Estimated cost: ${estimate.credits} credits for ${estimate.durationSeconds.toFixed(1)}s`
+    )
+
+    if (checkCredits) {
+      const { remainingCredits } = await client.credits({ signal })
+      if (estimate.credits > remainingCredits) {
+        throw new InsufficientCreditsError(
+          `Video needs about ${estimate.credits} credits but only ${remainingCredits} remain`
+        )
+      }
+    }
+
+    if (!budget) {
+      return 0
+    }
+    budget.reserve(estimate.credits)
+    return estimate.credits
+  }
+
+  /**
+   * Re-attach to a job created earlier, e.g. before a crash or restart.
+   *
+   * Uploaded jobs are started, running jobs are waited on and completed jobs are
+   * downloaded right away, so no job is paid for twice.
+   */
+  async resumeJob(
+    client: VideoBGRemoverClient,
+    jobId: string,
+    options: RemoveBGOptions,
+    importOptions: ImportOptions
+  ): Promise<Foreground> {
+    const { signal, onProgress, journal } = importOptions
+    throwIfAborted(signal)
+
+    const status = await client.status(jobId, { signal })
+    this.ctx.logger.info(`Resuming job ${jobId} (${status.status})`)
+
+    if (status.status === 'created' || status.status === 'failed') {
+      const message =
+        status.status === 'created'
+          ? 'Job has no uploaded video; create a new job with removeBackground()'
+          : status.message || 'Job processing failed'
+      journal?.record(jobId, 'failed', { error: message })
+      throw new ProcessingError(message, jobId)
+    }
+    if (status.status === 'cancelled') {
+      const error = new JobCancelledError(jobId)
+      journal?.record(jobId, 'failed', { error: error.message })
+      throw error
+    }
+
+    // Uploaded but never started
+    if (status.status === 'uploaded') {
+      const transparentFormat = this.chooseFormat(options)
+      this.ctx.logger.info(`Using transparent format: ${transparentFormat}`)
+      onProgress?.({ type: 'format_selected', format: transparentFormat })
+      return this._awaitResult(client, jobId, importOptions, () =>
+        this._startJob(client, jobId, transparentFormat, options, importOptions)
+      )
+    }
+
+    return this._awaitResult(client, jobId, importOptions)
+  }
+
+  /**
+   * Start processing with a transparent background
+   */
+  private async _startJob(
+    client: VideoBGRemoverClient,
+    jobId: string,
+    transparentFormat: string,
+    options: RemoveBGOptions,
+    importOptions: ImportOptions
+  ): Promise<void> {
+    const { signal, events, onProgress } = importOptions
+    const webhookUrl = importOptions.webhookUrl ?? events?.webhookUrl
+
     // Start job with transparent background
     const startRequest: StartJobRequest = {
       background: {
@@ -57,13 +419,63 @@ export class Importer {
       ...(webhookUrl && { webhook_url: webhookUrl }),
     }
 
-    await client.startJob(jobId, startRequest)
+    await client.startJob(jobId, startRequest, { signal })
     this.ctx.logger.info('Job started, waiting for completion...')
+    importOptions.journal?.record(jobId, 'started', {
+      format: transparentFormat,
+      model: options.model,
+      webhookUrl,
+    })
+    onProgress?.({ type: 'job_started', jobId })
+  }
 
-    // Wait for completion
-    const status = await client.wait(jobId, {
-      pollSeconds: waitPollSeconds,
+  /**
+   * Start the job if needed, wait for it and download its result
+   */
+  private async _awaitResult(
+    client: VideoBGRemoverClient,
+    jobId: string,
+    importOptions: ImportOptions,
+    start?: () => Promise<void>
+  ): Promise<Foreground> {
+    const {
+      waitPollSeconds,
+      polling,
       onStatus,
+      signal,
+      events,
+      fallbackPollSeconds,
+      onProgress,
+      journal,
+      stages,
+    } = importOptions
+
+    // Without a registered webhook no event will arrive, so keep polling at the normal rate
+    const webhookUrl = importOptions.webhookUrl ?? events?.webhookUrl
+
+    // Wait for completion
+    const waitStarted = Date.now()
+    const status = await this._inStage(stages?.job, signal, async () => {
+      await start?.()
+      return this._recordFailure(jobId, journal, () =>
+        client.wait(jobId, {
+          pollSeconds: waitPollSeconds,
+          polling,
+          onStatus,
+          onPoll: onProgress
+            ? (jobStatus, info) =>
+                onProgress({
+                  type: 'processing',
+                  jobId,
+                  elapsedSeconds: info.elapsedSeconds,
+                  ...this._processingStatus(jobStatus, info),
+                })
+            : undefined,
+          signal,
+          events,
+          fallbackPollSeconds: webhookUrl ? fallbackPollSeconds : waitPollSeconds,
+        })
+      )
     })
 
     if (status.status !== 'completed') {
@@ -71,15 +483,112 @@ export class Importer {
     }
 
     this.ctx.logger.info('Job completed, downloading result...')
+    onProgress?.({
+      type: 'processing',
+      jobId,
+      elapsedSeconds: (Date.now() - waitStarted) / 1000,
+      ...this._processingStatus(status, {}),
+    })
 
     // Convert API response to Foreground
-    return this._fromEndpoint(status)
+    const foreground = await this._inStage(stages?.download, signal, () =>
+      this._fromEndpoint(status, client, {
+        ...importOptions,
+        onDownloadProgress: onProgress
+          ? progress => {
+              importOptions.onDownloadProgress?.(progress)
+              onProgress({ type: 'download', jobId, ...progress })
+            }
+          : importOptions.onDownloadProgress,
+      })
+    )
+    journal?.record(jobId, 'completed', { resultPath: foreground.primaryPath })
+
+    if (importOptions.deleteAfterDownload) {
+      // The result is already on disk, so a failed deletion must not discard it
+      try {
+        await client.deleteJob(jobId, { signal })
+        this.ctx.logger.info(`Deleted job ${jobId} and its stored files`)
+      } catch (error) {
+        this.ctx.logger.warn(`Failed to delete job ${jobId}: ${error}`)
+      }
+    }
+
+    onProgress?.({ type: 'ready', jobId, foreground })
+    return foreground
+  }
+
+  /**
+   * Run a step while holding a slot of its pipeline stage, if the stage is limited
+   */
+  private async _inStage<T>(
+    stage: RequestThrottler | undefined,
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!stage) {
+      return fn()
+    }
+
+    const release = await stage.acquire(signal)
+    try {
+      return await fn()
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Mark the job as failed in the journal when processing fails on the API.
+   * Other errors (network, abort, server errors) leave it unfinished so it can be recovered.
+   */
+  private async _recordFailure<T>(
+    jobId: string,
+    journal: JobJournal | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await fn()
+    } catch (error) {
+      // Only the job's own failure is final; a 500 from the API has no jobId and the
+      // job may still be running
+      if (error instanceof ProcessingError && error.jobId === jobId) {
+        journal?.record(jobId, 'failed', { error: error.message })
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Summarize an API job status for progress events
+   */
+  private _processingStatus(status: Job, info: StatusInfo): ProcessingStatus {
+    const { estimatedTimeRemaining, elapsedSeconds } = info
+    let progress = status.status === 'completed' ? 1 : 0
+    if (status.status === 'processing' && estimatedTimeRemaining !== undefined && elapsedSeconds) {
+      // Never report 100% before the API does
+      progress = Math.min(0.99, elapsedSeconds / (elapsedSeconds + estimatedTimeRemaining))
+    }
+
+    let state: ProcessingStatus['status'] = 'processing'
+    if (status.status === 'created' || status.status === 'uploaded') {
+      state = 'pending'
+    } else if (['completed', 'failed', 'cancelled'].includes(status.status)) {
+      state = status.status as ProcessingStatus['status']
+    }
+
+    return {
+      status: state,
+      progress,
+      message: status.message || status.status,
+      estimatedTimeRemaining: status.status === 'completed' ? 0 : estimatedTimeRemaining,
+    }
   }
 
   /**
    * Choose the best transparent format based on options and system capabilities
    */
-  private _chooseFormat(options: RemoveBGOptions): string {
+  chooseFormat(options: RemoveBGOptions): string {
     if (options.prefer && options.prefer !== Prefer.AUTO) {
       return options.prefer
     }
@@ -114,20 +623,41 @@ export class Importer {
   /**
    * Create a job for the video (matches Python _create_job)
    */
-  private async _createJob(video: Video, client: VideoBGRemoverClient): Promise<string> {
-    if (video.kind === 'url' && (await this._publicUrlOk(video.src))) {
+  private async _createJob(
+    video: Video,
+    client: VideoBGRemoverClient,
+    probedContentType: VideoContentType | undefined,
+    importOptions: ImportOptions
+  ): Promise<string> {
+    const { signal, onUploadProgress, resumable, onProgress, journal } = importOptions
+    const created = (jobId: string) => {
+      journal?.record(jobId, 'created', { source: video.src })
+      onProgress?.({ type: 'job_created', jobId })
+    }
+
+    const { transport } = client
+    if (video.kind === 'url' && (await this._publicUrlOk(video.src, transport, signal))) {
       // Use URL download
-      const response = await client.createJobUrl({
-        video_url: video.src,
-      })
+      const response = await client.createJobUrl(
+        {
+          video_url: video.src,
+        },
+        { signal }
+      )
+      created(response.id)
       return response.id
     } else {
       // Use file upload
-      let contentType: 'video/mp4' | 'video/mov' | 'video/webm' = 'video/mp4'
+      let contentType: VideoContentType = 'video/mp4'
 
-      // Guess content type from extension
+      // Prefer the probed container, then the content type given with a buffer or
+      // stream, and only then guess from the extension
       const ext = path.extname(video.src).toLowerCase()
-      if (ext === '.mov') {
+      if (probedContentType) {
+        contentType = probedContentType
+      } else if (video.contentType) {
+        contentType = video.contentType
+      } else if (ext === '.mov') {
         contentType = 'video/mov'
       } else if (ext === '.webm') {
         contentType = 'video/webm'
@@ -135,7 +665,9 @@ export class Importer {
 
       // Extract filename from URL or file path
       let filename: string
-      if (video.kind === 'url') {
+      if (video.filename) {
+        filename = video.filename
+      } else if (video.kind === 'url') {
         try {
           const url = new URL(video.src)
           filename = path.basename(url.pathname) || 'video.mp4'
@@ -147,13 +679,52 @@ export class Importer {
       }
 
       // Create upload job
-      const response = await client.createJobFile({
-        filename,
-        content_type: contentType,
-      })
+      const createJob = async () => {
+        const job = await client.createJobFile(
+          {
+            filename,
+            content_type: contentType,
+          },
+          { signal }
+        )
+        created(job.id)
+        return job
+      }
+
+      // Upload in parts that survive crashes and network drops
+      if (resumable && video.kind === 'file') {
+        const uploader = new ResumableUploader(this.ctx, transport, resumable)
+        return uploader.upload(video.src, contentType, createJob, signal, onUploadProgress)
+      }
+
+      const response = await createJob()
+
+      // Upload buffers and streams straight from memory
+      if (video.kind === 'buffer' || video.kind === 'stream') {
+        const totalBytes = video.size!
+        let bytesSent = 0
+        await client.uploadVideo(
+          response.uploadUrl,
+          onUploadProgress
+            ? this._chunks(video._takeData(), byteLength => {
+                bytesSent += byteLength
+                onUploadProgress({ bytesSent, totalBytes })
+              })
+            : video._takeData(),
+          { contentType, contentLength: totalBytes, signal }
+        )
+        return response.id
+      }
 
       // Upload file to signed URL
-      await this._signedPut(response.upload_url, video.src, contentType)
+      await this._signedPut(
+        transport,
+        response.uploadUrl,
+        video.src,
+        contentType,
+        signal,
+        onUploadProgress
+      )
 
       return response.id
     }
@@ -162,12 +733,13 @@ export class Importer {
   /**
    * Check if URL is publicly accessible and within size limits (matches Python _public_url_ok)
    */
-  private async _publicUrlOk(url: string): Promise<boolean> {
+  private async _publicUrlOk(
+    url: string,
+    transport: Transport,
+    signal?: AbortSignal
+  ): Promise<boolean> {
     try {
-      const response = await axios.head(url, {
-        timeout: 5000,
-        maxRedirects: 5,
-      })
+      const response = await transport.request({ method: 'HEAD', url, timeout: 5000, signal })
 
       if (![200, 204].includes(response.status)) {
         return false
@@ -185,6 +757,7 @@ export class Importer {
 
       return true
     } catch (error) {
+      throwIfAborted(signal)
       this.ctx.logger.debug(`URL check failed for ${url}: ${error}`)
       return false
     }
@@ -192,18 +765,58 @@ export class Importer {
 
   /**
    * Upload file to signed URL (matches Python _signed_put)
+   *
+   * The file is streamed from disk so memory use stays flat regardless of its size.
    */
-  private async _signedPut(url: string, filePath: string, contentType: string): Promise<void> {
+  private async _signedPut(
+    transport: Transport,
+    url: string,
+    filePath: string,
+    contentType: string,
+    signal?: AbortSignal,
+    onProgress?: UploadProgressCallback
+  ): Promise<void> {
     try {
-      const fileData = fs.readFileSync(filePath)
+      const { size } = await fs.promises.stat(filePath)
+      const fileStream = fs.createReadStream(filePath)
 
-      await axios.put(url, fileData, {
-        headers: {
-          'Content-Type': contentType,
+      // Count bytes as the HTTP client consumes them
+      let bytesSent = 0
+      const body = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          bytesSent += chunk.length
+          onProgress?.({ bytesSent, totalBytes: size })
+          callback(null, chunk)
         },
-        timeout: 300000, // 5 minute timeout for uploads
       })
+      fileStream.on('error', error => body.destroy(error))
+      fileStream.pipe(body)
+
+      let response: TransportResponse
+      try {
+        response = await transport.request({
+          method: 'PUT',
+          url,
+          headers: {
+            'Content-Type': contentType,
+            'Content-Length': String(size),
+          },
+          body,
+          timeout: 300000, // 5 minute timeout for uploads
+          // Signed URLs never redirect
+          followRedirects: false,
+          signal,
+        })
+      } finally {
+        // Close the file even when the transport failed or answered before reading the body
+        fileStream.destroy()
+        body.destroy()
+      }
+      if (response.status < 200 || response.status >= 300) {
+        throw new ApiError(`Request failed with status code ${response.status}`, response.status)
+      }
     } catch (error) {
+      throwIfAborted(signal)
       throw new Error(`Failed to upload file: ${error}`)
     }
   }
@@ -211,17 +824,27 @@ export class Importer {
   /**
    * Download processed video from API response and create Foreground (matches Python _from_endpoint)
    */
-  private async _fromEndpoint(status: JobStatus): Promise<Foreground> {
-    if (!status.processed_video_url) {
+  private async _fromEndpoint(
+    status: Job,
+    client: VideoBGRemoverClient,
+    importOptions: Partial<ImportOptions> = {}
+  ): Promise<Foreground> {
+    if (!status.processedVideoUrl) {
       throw new Error('No processed video URL in job status')
     }
 
     // Determine file extension from URL
-    const urlStr = status.processed_video_url
+    const urlStr = status.processedVideoUrl
     const suffix = this._getFileExtensionFromUrl(urlStr)
 
     // Download the processed video
-    const videoPath = await this._downloadFile(urlStr, this._tempPath(suffix))
+    const videoPath = await this._downloadFile(
+      client,
+      urlStr,
+      this._tempPath(suffix),
+      importOptions.signal,
+      importOptions.onDownloadProgress
+    )
 
     // Handle ZIP files (pro bundle with multiple formats)
     if (videoPath.endsWith('.zip')) {
@@ -229,28 +852,98 @@ export class Importer {
     }
 
     // For all other formats, use simple file detection
-    return Foreground.fromFile(videoPath)
+    return Foreground.fromFile(videoPath, this.ctx)
   }
 
   /**
    * Download file from URL to local path (matches Python _download_file)
+   *
+   * Data is written to a `.part` file that is only renamed to localPath once the
+   * declared Content-Length has been received, so a broken transfer never reaches
+   * Foreground.fromFile. Failed transfers are retried from scratch, as often as the
+   * client's retry policy allows.
    */
-  private async _downloadFile(url: string, localPath: string): Promise<string> {
-    try {
-      const response = await axios.get(url, {
-        responseType: 'stream',
-        timeout: 300000, // 5 minute timeout
-      })
+  private async _downloadFile(
+    client: VideoBGRemoverClient,
+    url: string,
+    localPath: string,
+    signal?: AbortSignal,
+    onProgress?: DownloadProgressCallback
+  ): Promise<string> {
+    const partPath = `${localPath}.part`
+    const { transport, retryPolicy } = client
 
-      const writer = fs.createWriteStream(localPath)
-      response.data.pipe(writer)
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this._downloadTo(transport, url, partPath, signal, onProgress)
+        fs.renameSync(partPath, localPath)
+        return localPath
+      } catch (error) {
+        // Never leave a partial download behind
+        fs.rmSync(partPath, { force: true })
+        if (signal?.aborted) {
+          throw new AbortError()
+        }
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => resolve(localPath))
-        writer.on('error', reject)
-      })
+        const { status } = failureOf(error)
+        const retryable = status === undefined || retryPolicy.retryStatusCodes.includes(status)
+        if (!retryable || attempt >= retryPolicy.maxAttempts) {
+          throw new Error(`Failed to download ${url}: ${error}`)
+        }
+
+        this.ctx.logger.warn(`Download attempt ${attempt} failed, retrying: ${error}`)
+        await sleep(retryPolicy.delay(attempt), signal)
+      }
+    }
+  }
+
+  /**
+   * Stream a single download attempt to disk and verify its length
+   */
+  private async _downloadTo(
+    transport: Transport,
+    url: string,
+    filePath: string,
+    signal?: AbortSignal,
+    onProgress?: DownloadProgressCallback
+  ): Promise<void> {
+    const response = await transport.request({
+      method: 'GET',
+      url,
+      responseType: 'stream',
+      timeout: 300000, // 5 minute timeout
+      // Keep Content-Length comparable with the bytes written
+      headers: { 'Accept-Encoding': 'identity' },
+      signal,
+    })
+    if (response.status < 200 || response.status >= 300) {
+      throw new ApiError(`Request failed with status code ${response.status}`, response.status)
+    }
+
+    const contentLength = parseInt(response.headers['content-length'] ?? '')
+    const totalBytes = isNaN(contentLength) ? undefined : contentLength
+
+    let bytesReceived = 0
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesReceived += chunk.length
+        onProgress?.({ bytesReceived, totalBytes })
+        callback(null, chunk)
+      },
+    })
+
+    const file = fs.createWriteStream(filePath)
+    const closed = new Promise<void>(resolve => file.once('close', resolve))
+    try {
+      await pipeline(response.data as AsyncIterable<Uint8Array>, counter, file)
     } catch (error) {
-      throw new Error(`Failed to download ${url}: ${error}`)
+      // A file still opening would reappear after the caller removes it
+      await closed
+      throw error
+    }
+
+    if (totalBytes !== undefined && bytesReceived !== totalBytes) {
+      throw new Error(`Incomplete download: received ${bytesReceived} of ${totalBytes} bytes`)
     }
   }
 
@@ -0,0 +1,286 @@
+/**
+ * Resumable chunked uploads to signed upload URLs
+ *
+ * This module is internal and should not be used directly by SDK users.
+ *
+ * The file is sent as a series of ranged PUT requests (`Content-Range: bytes start-end/total`).
+ * The storage server acknowledges each part with `308 Resume Incomplete` and a `Range` header
+ * naming the bytes it has persisted, and answers 2xx once the last part is in. Progress is
+ * saved to a small JSON state file after every acknowledged part, so a crashed or interrupted
+ * upload resumes from the last acknowledged byte instead of creating a new job.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { Transform } from 'stream'
+import { ResumableUploadOptions, UploadProgressCallback } from '../types'
+import { ApiError } from '../errors'
+import { throwIfAborted } from '../abort'
+import { RetryPolicy, failureOf, sleep } from '../retry'
+import type { CreatedJob } from '../models'
+import type { Transport, TransportRequest, TransportResponse } from '../transport/types'
+import { MediaContext } from './context'
+
+/**
+ * Upload progress persisted between runs
+ */
+interface UploadState {
+  jobId: string
+  uploadUrl: string
+  expiresAt?: string
+  filePath: string
+  size: number
+  mtimeMs: number
+  contentType: string
+  offset: number
+}
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024
+
+/**
+ * Error raised when the server acknowledges a part without persisting any of it
+ */
+class StalledUploadError extends Error {}
+
+/**
+ * Uploads a local file in parts and resumes interrupted uploads (internal)
+ */
+export class ResumableUploader {
+  private readonly chunkSize: number
+  private readonly retryPolicy: RetryPolicy
+
+  constructor(
+    private readonly ctx: MediaContext,
+    private readonly transport: Transport,
+    private readonly options: ResumableUploadOptions = {}
+  ) {
+    this.chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE
+    this.retryPolicy = new RetryPolicy({ maxAttempts: options.maxAttempts ?? 5 })
+  }
+
+  /**
+   * State file used for a source file when no explicit path is configured
+   */
+  stateFileFor(filePath: string): string {
+    if (this.options.stateFile) {
+      return this.options.stateFile
+    }
+    const hash = crypto.createHash('sha1').update(path.resolve(filePath)).digest('hex')
+    return path.join(this.ctx.tmp, `vbr_upload_${hash.slice(0, 16)}.json`)
+  }
+
+  /**
+   * Upload a file, resuming a previous attempt when possible. Returns the job ID.
+   *
+   * createJob is only called when there is no resumable upload for this file.
+   */
+  async upload(
+    filePath: string,
+    contentType: string,
+    createJob: () => Promise<CreatedJob>,
+    signal?: AbortSignal,
+    onProgress?: UploadProgressCallback
+  ): Promise<string> {
+    const stateFile = this.stateFileFor(filePath)
+    const stat = await fs.promises.stat(filePath)
+
+    let state = this._loadState(stateFile, filePath, stat)
+    if (state) {
+      try {
+        state.offset = await this._queryOffset(state, signal)
+        this.ctx.logger.info(
+          `Resuming upload for job ${state.jobId} at byte ${state.offset}/${state.size}`
+        )
+      } catch (error) {
+        throwIfAborted(signal)
+        this.ctx.logger.warn(`Cannot resume upload for job ${state.jobId}: ${error}`)
+        state = undefined
+      }
+    }
+
+    if (!state) {
+      const job = await createJob()
+      state = {
+        jobId: job.id,
+        uploadUrl: job.uploadUrl,
+        expiresAt: job.expiresAt?.toISOString(),
+        filePath: path.resolve(filePath),
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        contentType,
+        offset: 0,
+      }
+      this._saveState(stateFile, state)
+    }
+
+    let attempt = 1
+    let needsSync = false
+    while (state.offset < state.size) {
+      try {
+        if (needsSync) {
+          state.offset = await this._queryOffset(state, signal)
+          needsSync = false
+        } else {
+          const previous = state.offset
+          state.offset = await this._putChunk(state, signal, onProgress)
+          if (state.offset <= previous) {
+            throw new StalledUploadError(`Server persisted nothing past byte ${previous}`)
+          }
+          attempt = 1
+        }
+        this._saveState(stateFile, state)
+      } catch (error) {
+        throwIfAborted(signal)
+        // A part that moved the offset nowhere counts as a failed attempt
+        const retryable =
+          error instanceof StalledUploadError
+            ? attempt < this.retryPolicy.maxAttempts
+            : this.retryPolicy.shouldRetry(attempt, failureOf(error))
+        if (!retryable) {
+          throw new Error(`Failed to upload file: ${error}`)
+        }
+
+        this.ctx.logger.warn(`Upload part failed (attempt ${attempt}), resuming: ${error}`)
+        await sleep(this.retryPolicy.delay(attempt), signal)
+        attempt++
+        needsSync = true
+      }
+    }
+
+    fs.rmSync(stateFile, { force: true })
+    return state.jobId
+  }
+
+  /**
+   * Send the next part and return the new acknowledged offset
+   */
+  private async _putChunk(
+    state: UploadState,
+    signal?: AbortSignal,
+    onProgress?: UploadProgressCallback
+  ): Promise<number> {
+    const start = state.offset
+    const end = Math.min(start + this.chunkSize, state.size) - 1
+
+    let bytesSent = start
+    const body = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesSent += chunk.length
+        onProgress?.({ bytesSent, totalBytes: state.size })
+        callback(null, chunk)
+      },
+    })
+    const fileStream = fs.createReadStream(state.filePath, { start, end })
+    fileStream.on('error', error => body.destroy(error))
+    fileStream.pipe(body)
+
+    let response: TransportResponse
+    try {
+      response = await this._put({
+        method: 'PUT',
+        url: state.uploadUrl,
+        headers: {
+          'Content-Type': state.contentType,
+          'Content-Length': String(end - start + 1),
+          'Content-Range': `bytes ${start}-${end}/${state.size}`,
+        },
+        body,
+        timeout: 300000,
+        signal,
+      })
+    } finally {
+      // Release the file descriptor even if the part was never fully read
+      fileStream.destroy()
+      body.destroy()
+    }
+
+    if (response.status !== 308 && end !== state.size - 1) {
+      // Plain signed PUT URLs answer 2xx to any body, storing only this part
+      throw new Error(
+        `Upload URL answered ${response.status} to bytes ${start}-${end} of ${state.size}; ` +
+          'it does not support resumable uploads'
+      )
+    }
+    return this._acknowledgedOffset(response, state.size)
+  }
+
+  /**
+   * Ask the server how many bytes it has persisted so far
+   */
+  private async _queryOffset(state: UploadState, signal?: AbortSignal): Promise<number> {
+    const response = await this._put({
+      method: 'PUT',
+      url: state.uploadUrl,
+      headers: {
+        'Content-Length': '0',
+        'Content-Range': `bytes */${state.size}`,
+      },
+      timeout: 30000,
+      signal,
+    })
+
+    return this._acknowledgedOffset(response, state.size)
+  }
+
+  /**
+   * Send a PUT without following redirects; 308 is the server's acknowledgement here
+   */
+  private async _put(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.transport.request({ ...request, followRedirects: false })
+    if (response.status !== 308 && (response.status < 200 || response.status >= 300)) {
+      throw new ApiError(`Request failed with status code ${response.status}`, response.status)
+    }
+    return response
+  }
+
+  /**
+   * Read the acknowledged offset from a 308 Range header, or the full size when complete
+   */
+  private _acknowledgedOffset(response: TransportResponse, size: number): number {
+    if (response.status !== 308) {
+      return size
+    }
+
+    const range = response.headers['range']
+    const match = range && /bytes=0-(\d+)/.exec(range)
+    return match ? parseInt(match[1]!) + 1 : 0
+  }
+
+  /**
+   * Load saved state if it still describes the same, unexpired upload
+   */
+  private _loadState(stateFile: string, filePath: string, stat: fs.Stats): UploadState | undefined {
+    try {
+      if (!fs.existsSync(stateFile)) {
+        return undefined
+      }
+
+      const state = JSON.parse(fs.readFileSync(stateFile, 'utf-8')) as UploadState
+      const expired = state.expiresAt && Date.parse(state.expiresAt) <= Date.now()
+      const sameFile =
+        state.filePath === path.resolve(filePath) &&
+        state.size === stat.size &&
+        state.mtimeMs === stat.mtimeMs
+
+      if (sameFile && !expired) {
+        return state
+      }
+
+      this.ctx.logger.debug(`Discarding stale upload state ${stateFile}`)
+      fs.rmSync(stateFile, { force: true })
+    } catch (error) {
+      this.ctx.logger.warn(`Ignoring unreadable upload state ${stateFile}: ${error}`)
+    }
+    return undefined
+  }
+
+  /**
+   * Persist state atomically so a crash never leaves a truncated state file
+   */
+  private _saveState(stateFile: string, state: UploadState): void {
+    const tempFile = `${stateFile}.tmp`
+    fs.writeFileSync(tempFile, JSON.stringify(state))
+    fs.renameSync(tempFile, stateFile)
+  }
+}
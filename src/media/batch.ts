@@ -0,0 +1,132 @@
+/**
+ * Batch background removal with separate concurrency limits per pipeline stage
+ */
+
+import { ProgressEvent } from '../types'
+import { throwIfAborted } from '../abort'
+import { ValidationError } from '../errors'
+import { RequestThrottler } from '../rate-limit'
+import { defaultContext } from './context'
+import { Foreground } from './foreground'
+import { RemoveBGOptions } from './remove_bg'
+import { Importer, toImportOptions } from './_importer_internal'
+import { CreditBudget } from './credits'
+import type { RemoveBackgroundOptions, Video } from './video'
+
+/**
+ * Maximum number of items in each pipeline stage at once
+ */
+export interface BatchConcurrency {
+  /** Job creations and source uploads (default: 2) */
+  uploads?: number
+  /** Jobs processing on the API (default: 4) */
+  jobs?: number
+  /** Result downloads (default: 2) */
+  downloads?: number
+}
+
+/**
+ * Options for a batch; everything except the per-item callbacks applies to every video
+ */
+export interface BatchOptions
+  extends Omit<
+    RemoveBackgroundOptions,
+    'onStatus' | 'onProgress' | 'onUploadProgress' | 'onDownloadProgress'
+  > {
+  concurrency?: BatchConcurrency
+  /** Credit budget for the whole batch; items whose estimate no longer fits are refused */
+  maxCredits?: number
+  /** Progress events of one item */
+  onItemProgress?: (video: Video, event: ProgressEvent) => void
+  /** Called as soon as an item succeeds or fails; errors thrown here are logged and ignored */
+  onItemDone?: (video: Video, result: BatchItemResult) => void
+}
+
+/**
+ * Outcome of one item, shaped like Promise.allSettled results
+ */
+export type BatchItemResult =
+  | { status: 'fulfilled'; foreground: Foreground }
+  | { status: 'rejected'; error: unknown }
+
+/**
+ * Removes backgrounds from many videos without overloading uploads, the API or downloads.
+ *
+ * Failures are collected per item instead of rejecting the whole batch; only aborting
+ * the batch signal rejects, with AbortError. Results are keyed by video, so each Video
+ * instance may appear only once per batch.
+ *
+ * @example
+ * ```typescript
+ * const batch = new BatchProcessor({ client, concurrency: { uploads: 2, jobs: 8, downloads: 2 } })
+ * const results = await batch.run(files.map(file => Video.open(file)))
+ * for (const [video, result] of results) {
+ *   if (result.status === 'rejected') console.error(video.src, result.error)
+ * }
+ * ```
+ */
+export class BatchProcessor {
+  private readonly uploads: RequestThrottler
+  private readonly jobs: RequestThrottler
+  private readonly downloads: RequestThrottler
+
+  constructor(private readonly options: BatchOptions) {
+    const { uploads = 2, jobs = 4, downloads = 2 } = options.concurrency || {}
+    this.uploads = new RequestThrottler({ maxConcurrent: uploads })
+    this.jobs = new RequestThrottler({ maxConcurrent: jobs })
+    this.downloads = new RequestThrottler({ maxConcurrent: downloads })
+  }
+
+  /**
+   * Process every video and return their results keyed by video, in input order.
+   * Throws ValidationError (field `videos`) if the same Video instance is passed twice.
+   */
+  async run(videos: Video[]): Promise<Map<Video, BatchItemResult>> {
+    if (new Set(videos).size !== videos.length) {
+      throw new ValidationError('Each video can appear only once in a batch', 'videos')
+    }
+
+    const {
+      client,
+      options = new RemoveBGOptions(),
+      ctx,
+      signal,
+      onItemProgress,
+      onItemDone,
+    } = this.options
+    const mediaCtx = ctx || defaultContext()
+    const importer = new Importer(mediaCtx)
+    const budget =
+      this.options.maxCredits !== undefined ? new CreditBudget(this.options.maxCredits) : undefined
+    // Detecting encoder support runs FFmpeg, so do it once rather than per item
+    const format = importer.chooseFormat(options)
+
+    const settled = await Promise.all(
+      videos.map(async video => {
+        let result: BatchItemResult
+        try {
+          const foreground = await importer.removeBackground(video, client, options, {
+            ...toImportOptions(this.options),
+            onProgress: onItemProgress && (event => onItemProgress(video, event)),
+            stages: { upload: this.uploads, job: this.jobs, download: this.downloads },
+            budget,
+            format,
+          })
+          result = { status: 'fulfilled', foreground }
+        } catch (error) {
+          result = { status: 'rejected', error }
+        }
+        try {
+          onItemDone?.(video, result)
+        } catch (error) {
+          // A failing callback must not lose the results of the other items
+          mediaCtx.logger.warn(`onItemDone callback failed for ${video.src}: ${error}`)
+        }
+        return result
+      })
+    )
+
+    throwIfAborted(signal)
+    return new Map(videos.map((video, index) => [video, settled[index]!]))
+  }
+}
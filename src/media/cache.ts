@@ -0,0 +1,302 @@
+/**
+ * Local cache of background removal results keyed by source content
+ *
+ * Results are stored per (source file hash, model, transparent format), so
+ * submitting the same video again returns the earlier result without creating
+ * a new job or spending credits.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as crypto from 'crypto'
+import { pipeline } from 'stream/promises'
+import { TransparentFormat } from '../types'
+import { MediaContext, defaultContext } from './context'
+import { Foreground } from './foreground'
+
+/**
+ * Options for the result cache
+ */
+export interface ResultCacheOptions {
+  /** Cache directory (default: videobgremover-cache in MediaContext.tmp) */
+  dir?: string
+  /** Maximum total size in bytes; least recently used results are evicted first (default: 5 GiB) */
+  maxSize?: number
+  /** Maximum age of a result in seconds (default: 30 days) */
+  maxAge?: number
+  /** Media context used for the default directory and for probing cached results */
+  ctx?: MediaContext
+}
+
+/**
+ * Cached result as returned by ResultCache.get
+ */
+export interface CachedResult {
+  jobId: string
+  foreground: Foreground
+}
+
+/**
+ * Metadata stored next to the cached files
+ */
+interface CacheMeta {
+  jobId: string
+  format: TransparentFormat
+  /** File names inside the entry directory */
+  files: { primary: string; mask?: string; audio?: string }
+  matte: boolean
+  size: number
+  createdAt: number
+  lastUsedAt: number
+}
+
+const META_FILE = 'meta.json'
+
+/** How long a result returned by get() is kept safe from eviction */
+const IN_USE_MS = 60 * 60 * 1000
+
+/**
+ * Entry directories handed out by get() in this process, with the time they were handed out.
+ * Shared by every ResultCache so one instance never evicts files another one returned.
+ */
+const handedOut = new Map<string, number>()
+
+/**
+ * Opt-in content-hash cache for processed results
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResultCache({ maxSize: 10 * 1024 ** 3 })
+ * const fg = await video.removeBackground({ client, cache }) // processed by the API
+ * const again = await video.removeBackground({ client, cache }) // served from disk
+ * ```
+ */
+export class ResultCache {
+  public readonly dir: string
+  public readonly maxSize: number
+  public readonly maxAge: number
+  private readonly ctx: MediaContext
+
+  constructor(options: ResultCacheOptions = {}) {
+    this.ctx = options.ctx || defaultContext()
+    this.dir = options.dir || path.join(this.ctx.tmp, 'videobgremover-cache')
+    this.maxSize = options.maxSize ?? 5 * 1024 ** 3
+    this.maxAge = options.maxAge ?? 30 * 24 * 60 * 60
+  }
+
+  /**
+   * SHA-256 of a file's contents, streamed from disk
+   */
+  static async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256')
+    await pipeline(fs.createReadStream(filePath), hash)
+    return hash.digest('hex')
+  }
+
+  /**
+   * Cache key for a source hash, transparent format and model
+   */
+  key(sourceHash: string, format: string, model?: string): string {
+    return crypto
+      .createHash('sha256')
+      .update(`${sourceHash}:${format}:${model || 'default'}`)
+      .digest('hex')
+  }
+
+  /**
+   * Look up a result, or undefined when it is missing, expired or incomplete
+   */
+  get(key: string): CachedResult | undefined {
+    const entryDir = path.join(this.dir, key)
+    const meta = this._readMeta(entryDir)
+    if (!meta) {
+      return undefined
+    }
+
+    const files = [meta.files.primary, meta.files.mask, meta.files.audio]
+    const complete = files.every(file => !file || fs.existsSync(path.join(entryDir, file)))
+    if (this._expired(meta) || !complete) {
+      fs.rmSync(entryDir, { recursive: true, force: true })
+      return undefined
+    }
+
+    meta.lastUsedAt = Date.now()
+    this._writeMeta(entryDir, meta)
+    handedOut.set(path.resolve(entryDir), meta.lastUsedAt)
+    return { jobId: meta.jobId, foreground: this._restore(entryDir, meta) }
+  }
+
+  /**
+   * Copy a result into the cache, then evict expired and least recently used results
+   */
+  put(key: string, jobId: string, foreground: Foreground): void {
+    fs.mkdirSync(this.dir, { recursive: true })
+
+    // Build the entry next to its final place and rename it in one step
+    const entryDir = path.join(this.dir, key)
+    const stagingDir = fs.mkdtempSync(path.join(this.dir, `${key}.tmp-`))
+    try {
+      const copy = (source: string | undefined, name: string) => {
+        if (!source) {
+          return undefined
+        }
+        const fileName = `${name}${path.extname(source)}`
+        fs.cpSync(source, path.join(stagingDir, fileName), { recursive: true })
+        return fileName
+      }
+
+      const files = {
+        primary: copy(foreground.primaryPath, 'primary')!,
+        mask: copy(foreground.maskPath, 'mask'),
+        audio: copy(foreground.audioPath, 'audio'),
+      }
+      const now = Date.now()
+      this._writeMeta(stagingDir, {
+        jobId,
+        format: foreground.format,
+        files,
+        matte: foreground.matte,
+        size: this._sizeOf(stagingDir),
+        createdAt: now,
+        lastUsedAt: now,
+      })
+
+      fs.rmSync(entryDir, { recursive: true, force: true })
+      fs.renameSync(stagingDir, entryDir)
+    } catch (error) {
+      fs.rmSync(stagingDir, { recursive: true, force: true })
+      throw error
+    }
+
+    this.prune()
+  }
+
+  /**
+   * Remove expired results, then the least recently used ones until under maxSize.
+   * Results returned by get() in this process within the last hour are kept, since
+   * their Foreground still reads from the cache directory.
+   */
+  prune(): void {
+    if (!fs.existsSync(this.dir)) {
+      return
+    }
+
+    const entries: Array<{ dir: string; meta: CacheMeta }> = []
+    // Size of the results kept because they are in use
+    let total = 0
+    for (const name of fs.readdirSync(this.dir)) {
+      const entryDir = path.join(this.dir, name)
+      if (name.includes('.tmp-')) {
+        // A write in progress, or the leftovers of one interrupted by a crash
+        if (this._isStale(entryDir)) {
+          fs.rmSync(entryDir, { recursive: true, force: true })
+        }
+        continue
+      }
+
+      const meta = this._readMeta(entryDir)
+      if (this._inUse(entryDir)) {
+        total += meta?.size ?? 0
+        continue
+      }
+      if (!meta || this._expired(meta)) {
+        fs.rmSync(entryDir, { recursive: true, force: true })
+        continue
+      }
+      entries.push({ dir: entryDir, meta })
+    }
+
+    entries.sort((a, b) => a.meta.lastUsedAt - b.meta.lastUsedAt)
+    total += entries.reduce((sum, entry) => sum + entry.meta.size, 0)
+    for (const entry of entries) {
+      if (total <= this.maxSize) {
+        break
+      }
+      this.ctx.logger.debug(`Evicting cached result ${path.basename(entry.dir)}`)
+      fs.rmSync(entry.dir, { recursive: true, force: true })
+      total -= entry.meta.size
+    }
+  }
+
+  /**
+   * Delete every cached result
+   */
+  clear(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true })
+  }
+
+  /**
+   * Rebuild a Foreground from the cached files
+   */
+  private _restore(entryDir: string, meta: CacheMeta): Foreground {
+    const primary = path.join(entryDir, meta.files.primary)
+    const mask = meta.files.mask && path.join(entryDir, meta.files.mask)
+    const audio = meta.files.audio && path.join(entryDir, meta.files.audio)
+
+    switch (meta.format) {
+      case 'webm_vp9':
+        return Foreground.fromWebmVp9(primary, this.ctx)
+      case 'mov_prores':
+        return Foreground.fromMovProres(primary, this.ctx)
+      case 'stacked_video':
+        return Foreground.fromStackedVideo(primary, this.ctx)
+      case 'png_sequence':
+        return Foreground.fromPngSequence(primary)
+      default:
+        return mask
+          ? Foreground.fromVideoAndMask(primary, mask, audio || undefined, this.ctx, meta.matte)
+          : Foreground.fromFile(primary, this.ctx)
+    }
+  }
+
+  /**
+   * Whether get() returned this entry recently in this process
+   */
+  private _inUse(entryDir: string): boolean {
+    const key = path.resolve(entryDir)
+    const at = handedOut.get(key)
+    if (at !== undefined && Date.now() - at > IN_USE_MS) {
+      handedOut.delete(key)
+      return false
+    }
+    return at !== undefined
+  }
+
+  private _expired(meta: CacheMeta): boolean {
+    return Date.now() - meta.createdAt > this.maxAge * 1000
+  }
+
+  /**
+   * Staging directories older than an hour belong to a crashed process
+   */
+  private _isStale(dir: string): boolean {
+    return Date.now() - fs.statSync(dir).mtimeMs > 60 * 60 * 1000
+  }
+
+  private _readMeta(entryDir: string): CacheMeta | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(entryDir, META_FILE), 'utf-8')) as CacheMeta
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Write metadata atomically so readers never see a truncated file
+   */
+  private _writeMeta(entryDir: string, meta: CacheMeta): void {
+    const metaPath = path.join(entryDir, META_FILE)
+    fs.writeFileSync(`${metaPath}.tmp`, JSON.stringify(meta))
+    fs.renameSync(`${metaPath}.tmp`, metaPath)
+  }
+
+  private _sizeOf(target: string): number {
+    const stat = fs.statSync(target)
+    if (!stat.isDirectory()) {
+      return stat.size
+    }
+    return fs
+      .readdirSync(target)
+      .reduce((sum, name) => sum + this._sizeOf(path.join(target, name)), 0)
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Credit estimation and budgets for background removal
+ *
+ * Processing is billed by video length, so the cost of a video can be estimated
+ * from its duration before any upload happens.
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { execFileSync } from 'child_process'
+import { ApiError, CreditBudgetExceededError, ValidationError } from '../errors'
+import { throwIfAborted } from '../abort'
+import { AxiosTransport } from '../transport/axios'
+import type { Transport } from '../transport/types'
+import { MediaContext, defaultContext } from './context'
+import type { Video } from './video'
+
+/**
+ * Estimated cost of processing a video
+ */
+export interface CreditEstimate {
+  /** Probed duration of the source video */
+  durationSeconds: number
+  /** Estimated credits, rounded up */
+  credits: number
+  /** Size of the source in bytes, when known */
+  sizeBytes?: number
+}
+
+/**
+ * Options for credit estimation
+ */
+export interface CreditEstimateOptions {
+  ctx?: MediaContext
+  /** Credits charged per second of video (default: 1) */
+  creditsPerSecond?: number
+  /** Transport for the HEAD request on URL sources (default: AxiosTransport) */
+  transport?: Transport
+  signal?: AbortSignal
+}
+
+/**
+ * Estimate the credits a video will cost from its duration.
+ *
+ * Local files are probed with ffprobe. URLs are checked with a HEAD request first
+ * (reachability and size), then ffprobe reads only the container header remotely.
+ * Buffers are probed from a temporary file; streams cannot be estimated up front.
+ */
+export async function estimateCredits(
+  video: Video,
+  options: CreditEstimateOptions = {}
+): Promise<CreditEstimate> {
+  const { creditsPerSecond = 1, transport = new AxiosTransport(), signal } = options
+  const ctx = options.ctx || defaultContext()
+  throwIfAborted(signal)
+
+  let sizeBytes: number | undefined
+  if (video.kind === 'url') {
+    const response = await transport.request({
+      method: 'HEAD',
+      url: video.src,
+      timeout: 10000,
+      signal,
+    })
+    if (response.status < 200 || response.status >= 300) {
+      throw new ApiError(`Request failed with status code ${response.status}`, response.status)
+    }
+    const contentLength = response.headers['content-length']
+    sizeBytes = contentLength ? parseInt(contentLength) : undefined
+  }
+
+  let durationSeconds: number
+  if (video.kind === 'stream') {
+    throw new ValidationError(
+      'Stream videos cannot be probed without consuming them; use removeBackground({ checkCredits: true })',
+      'src'
+    )
+  } else if (video.kind === 'buffer') {
+    // ffprobe reads files, so the buffer is written out briefly
+    const filePath = path.join(
+      ctx.tmp || os.tmpdir(),
+      `vbr_probe_${Date.now()}${path.extname(video.src)}`
+    )
+    fs.writeFileSync(filePath, video._takeData() as Uint8Array)
+    try {
+      durationSeconds = probeDuration(filePath, ctx)
+    } finally {
+      fs.rmSync(filePath, { force: true })
+    }
+    sizeBytes = video.size
+  } else {
+    durationSeconds = probeDuration(video.src, ctx)
+  }
+  return {
+    durationSeconds,
+    credits: Math.ceil(durationSeconds * creditsPerSecond),
+    ...(sizeBytes !== undefined && { sizeBytes }),
+  }
+}
+
+/**
+ * Read a video's duration in seconds with ffprobe
+ */
+export function probeDuration(src: string, ctx: MediaContext): number {
+  let output: string
+  try {
+    // No shell, so paths and URLs with $, backticks or quotes reach ffprobe unchanged
+    output = execFileSync(
+      ctx.ffprobe || 'ffprobe',
+      ['-v', 'quiet', '-print_format', 'json', '-show_entries', 'format=duration', src],
+      { encoding: 'utf-8', timeout: 15000 }
+    )
+  } catch (error) {
+    throw new ValidationError(`Could not probe video duration of ${src}: ${error}`, 'src')
+  }
+
+  const duration = parseFloat(
+    (JSON.parse(output) as { format?: { duration?: string } }).format?.duration ?? ''
+  )
+  if (!(duration > 0)) {
+    throw new ValidationError(`Could not determine video duration of ${src}`, 'src')
+  }
+  return duration
+}
+
+/**
+ * Running credit budget shared by the items of a batch
+ */
+export class CreditBudget {
+  private reserved = 0
+
+  constructor(public readonly maxCredits: number) {}
+
+  /**
+   * Credits still available for new work
+   */
+  get remaining(): number {
+    return this.maxCredits - this.reserved
+  }
+
+  /**
+   * Credits claimed by work started so far
+   */
+  get spent(): number {
+    return this.reserved
+  }
+
+  /**
+   * Claim credits for a video, or throw CreditBudgetExceededError if they do not fit
+   */
+  reserve(credits: number): void {
+    if (credits > this.remaining) {
+      throw new CreditBudgetExceededError(credits, this.remaining)
+    }
+    this.reserved += credits
+  }
+
+  /**
+   * Return credits claimed for a video whose job was never started, and so never billed
+   */
+  release(credits: number): void {
+    this.reserved = Math.max(0, this.reserved - credits)
+  }
+}
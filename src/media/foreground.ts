@@ -3,10 +3,12 @@
  * (from Python media/foregrounds.py)
  */
 
-import { TransparentFormat } from '../types'
+import { TransparentFormat, RemoveBGOptions } from '../types'
+import type { VideoBGRemoverClient } from '../client'
 import { VideoSource } from './video-source'
 import { MediaContext, defaultContext } from './context'
-import { Importer } from './_importer_internal'
+import { Importer, toImportOptions } from './_importer_internal'
+import type { ResumeJobOptions } from './video'
 
 /**
  * Represents a transparent video (foreground) after background removal
@@ -163,6 +165,27 @@ export class Foreground extends VideoSource {
     return fg
   }
 
+  /**
+   * Re-attach to a job created earlier and return its result.
+   *
+   * Waits on a running job, starts an uploaded one, or downloads the result of a
+   * completed one, so a process restart never means paying for the job twice.
+   *
+   * @example
+   * ```typescript
+   * const foreground = await Foreground.fromJob(client, savedJobId)
+   * ```
+   */
+  static async fromJob(
+    client: VideoBGRemoverClient,
+    jobId: string,
+    opts: ResumeJobOptions = {}
+  ): Promise<Foreground> {
+    const { options = new RemoveBGOptions(), ctx } = opts
+    const importer = new Importer(ctx || defaultContext())
+    return importer.resumeJob(client, jobId, options, toImportOptions(opts))
+  }
+
   /**
    * Create a new Foreground with source trimming
    */
@@ -4,6 +4,12 @@
  */
 
 export { Video } from './video'
+export type {
+  RemoveBackgroundOptions,
+  ResumeJobOptions,
+  VideoContentType,
+  VideoDataOptions,
+} from './video'
 export {
   Background,
   BaseBackground,
@@ -18,6 +24,16 @@ export { EncoderProfile } from './encoders'
 export { MediaContext, defaultContext, setDefaultContext } from './context'
 export { VideoSource } from './video-source'
 export { RemoveBGOptions, Prefer, Model } from './remove_bg'
+export { JobJournal } from './journal'
+export { ResultCache } from './cache'
+export { BatchProcessor } from './batch'
+export type { BatchOptions, BatchConcurrency, BatchItemResult } from './batch'
+export { CreditBudget, estimateCredits } from './credits'
+export type { CreditEstimate, CreditEstimateOptions } from './credits'
+export { probeVideo, validateVideo } from './validation'
+export type { VideoProbe, ValidationLimits, ValidateVideoOptions } from './validation'
+export type { ResultCacheOptions, CachedResult } from './cache'
+export type { JournalEntry, JournalState, RecoveredJob } from './journal'
 
 // Re-export LayerHandle from composition
 export type { LayerHandle } from './composition'
@@ -0,0 +1,187 @@
+/**
+ * Durable on-disk journal of background removal jobs
+ *
+ * Every job the SDK creates is appended to a JSON-lines file as it moves through
+ * its states. After a crash, recover() re-attaches to the jobs that never finished,
+ * so credits already spent on them are not lost.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type { VideoBGRemoverClient } from '../client'
+import { MediaContext, defaultContext } from './context'
+import { Foreground } from './foreground'
+import { RemoveBGOptions, Prefer, Model } from './remove_bg'
+import type { ResumeJobOptions } from './video'
+
+/**
+ * Job state as recorded in the journal
+ */
+export type JournalState = 'created' | 'started' | 'completed' | 'failed'
+
+/**
+ * Latest known record of one job
+ */
+export interface JournalEntry {
+  jobId: string
+  state: JournalState
+  /** Source file path or URL */
+  source?: string
+  /** Transparent format the job was started with */
+  format?: string
+  model?: string
+  webhookUrl?: string
+  /** Local path of the downloaded result */
+  resultPath?: string
+  error?: string
+  /** ISO timestamp of the last update */
+  updatedAt: string
+}
+
+/**
+ * Outcome of recovering one unfinished job
+ */
+export interface RecoveredJob {
+  entry: JournalEntry
+  foreground?: Foreground
+  error?: unknown
+}
+
+const DEFAULT_JOURNAL_FILE = 'videobgremover-jobs.jsonl'
+
+/**
+ * Append-only JSON-lines journal of jobs created by the SDK
+ *
+ * @example
+ * ```typescript
+ * const journal = new JobJournal('/var/lib/myapp/jobs.jsonl')
+ * await video.removeBackground({ client, journal })
+ *
+ * // After a restart
+ * for (const { entry, foreground, error } of await journal.recover(client)) { ... }
+ * ```
+ */
+export class JobJournal {
+  public readonly path: string
+
+  /**
+   * @param filePath Journal file (default: videobgremover-jobs.jsonl in MediaContext.tmp)
+   * @param ctx Media context used for the default location
+   */
+  constructor(filePath?: string, ctx?: MediaContext) {
+    this.path = filePath || path.join((ctx || defaultContext()).tmp, DEFAULT_JOURNAL_FILE)
+  }
+
+  /**
+   * Append a state change for a job and flush it to disk
+   */
+  record(jobId: string, state: JournalState, details: Partial<JournalEntry> = {}): void {
+    const line = JSON.stringify({ ...details, jobId, state, updatedAt: new Date().toISOString() })
+
+    fs.mkdirSync(path.dirname(this.path), { recursive: true })
+    const fd = fs.openSync(this.path, 'a+')
+    try {
+      // Never glue a record onto a line cut short by a crash mid-write
+      fs.writeSync(fd, this._endsMidLine(fd) ? `\n${line}\n` : `${line}\n`)
+      fs.fsyncSync(fd)
+    } finally {
+      fs.closeSync(fd)
+    }
+  }
+
+  /**
+   * Latest record of every job, oldest first
+   */
+  entries(): JournalEntry[] {
+    if (!fs.existsSync(this.path)) {
+      return []
+    }
+
+    const byJob = new Map<string, JournalEntry>()
+    for (const line of fs.readFileSync(this.path, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue
+      }
+
+      let record: JournalEntry
+      try {
+        record = JSON.parse(line)
+      } catch {
+        // A line cut short by a crash mid-write
+        continue
+      }
+      byJob.set(record.jobId, { ...byJob.get(record.jobId), ...record })
+    }
+    return [...byJob.values()]
+  }
+
+  /**
+   * Jobs that were created or started but never completed or failed
+   */
+  unfinished(): JournalEntry[] {
+    return this.entries().filter(entry => entry.state === 'created' || entry.state === 'started')
+  }
+
+  /**
+   * Resume every unfinished job, one at a time, and return the outcomes.
+   *
+   * A job that cannot be resumed is reported with its error and the other jobs are
+   * still recovered. Failed jobs are marked as such; jobs hit by network errors stay
+   * unfinished for the next recover() call.
+   */
+  async recover(
+    client: VideoBGRemoverClient,
+    opts: ResumeJobOptions = {}
+  ): Promise<RecoveredJob[]> {
+    const results: RecoveredJob[] = []
+
+    for (const entry of this.unfinished()) {
+      const options =
+        opts.options ||
+        new RemoveBGOptions(
+          (entry.format as Prefer | undefined) || Prefer.AUTO,
+          entry.model as Model | undefined
+        )
+
+      try {
+        const foreground = await Foreground.fromJob(client, entry.jobId, {
+          ...opts,
+          options,
+          webhookUrl: opts.webhookUrl ?? entry.webhookUrl,
+          journal: this,
+        })
+        results.push({ entry, foreground })
+      } catch (error) {
+        if (opts.signal?.aborted) {
+          throw error
+        }
+        results.push({ entry, error })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Rewrite the journal with one line per job, dropping finished jobs when asked
+   */
+  compact(options: { dropFinished?: boolean } = {}): void {
+    const entries = options.dropFinished ? this.unfinished() : this.entries()
+    const tempFile = `${this.path}.tmp`
+    fs.writeFileSync(tempFile, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''))
+    fs.renameSync(tempFile, this.path)
+  }
+
+  /**
+   * Check whether the journal's last line is missing its newline
+   */
+  private _endsMidLine(fd: number): boolean {
+    const { size } = fs.fstatSync(fd)
+    if (size === 0) {
+      return false
+    }
+    const last = Buffer.alloc(1)
+    fs.readSync(fd, last, 0, 1, size - 1)
+    return last[0] !== 0x0a
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Pre-flight validation of source videos
+ *
+ * Sources are probed with ffprobe before a job is created, so corrupt files,
+ * audio-only files and files over the limits fail before any upload time or
+ * credits are spent.
+ */
+
+import * as fs from 'fs'
+import { execFileSync } from 'child_process'
+import { ValidationError } from '../errors'
+import { MediaContext, defaultContext } from './context'
+import type { VideoContentType } from './video'
+
+/** Largest source the API accepts (1 GB) */
+export const MAX_SOURCE_BYTES = 1_000_000_000
+
+/** Codecs that make a Matroska file a WebM file */
+const WEBM_CODECS = ['vp8', 'vp9', 'av1']
+
+/**
+ * Container, codec and length of a source video
+ */
+export interface VideoProbe {
+  /** Content type of an MP4, MOV or WebM container, or undefined for others such as MKV */
+  contentType?: VideoContentType
+  /** Container as named by ffprobe (e.g. "mov,mp4,m4a,3gp,3g2,mj2") */
+  formatName: string
+  /** Codec of the first video stream, or undefined for files without one */
+  videoCodec?: string
+  width?: number
+  height?: number
+  durationSeconds?: number
+  sizeBytes: number
+  hasAudio: boolean
+}
+
+/**
+ * Limits checked by validateVideo()
+ */
+export interface ValidationLimits {
+  /** Largest accepted file in bytes (default: 1 GB) */
+  maxSizeBytes?: number
+  /** Longest accepted video in seconds; videos of unknown length are refused (default: no limit) */
+  maxDurationSeconds?: number
+  /** Accepted video codecs as named by ffprobe, e.g. ['h264', 'hevc'] (default: any) */
+  allowedCodecs?: string[]
+  /** Accepted containers (default: any, including ones without a content type such as MKV) */
+  allowedContainers?: VideoContentType[]
+}
+
+/**
+ * Options for validateVideo()
+ */
+export interface ValidateVideoOptions extends ValidationLimits {
+  ctx?: MediaContext
+}
+
+interface FFprobeOutput {
+  format?: {
+    format_name?: string
+    duration?: string
+    tags?: { major_brand?: string }
+  }
+  streams?: Array<{
+    codec_type?: string
+    codec_name?: string
+    width?: number
+    height?: number
+    duration?: string
+  }>
+}
+
+/**
+ * Read the container, codec and duration of a local video with ffprobe.
+ * Throws ValidationError (field `src`) when the file cannot be read as media.
+ */
+export function probeVideo(filePath: string, ctx: MediaContext = defaultContext()): VideoProbe {
+  const { size } = fs.statSync(filePath)
+
+  let data: FFprobeOutput
+  try {
+    // No shell, so file names with $, backticks or quotes reach ffprobe unchanged
+    const output = execFileSync(
+      ctx.ffprobe || 'ffprobe',
+      ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath],
+      { encoding: 'utf-8', timeout: 15000 }
+    )
+    data = JSON.parse(output) as FFprobeOutput
+  } catch (error) {
+    throw new ValidationError(`Could not read ${filePath} as a video: ${error}`, 'src')
+  }
+
+  const streams = data.streams || []
+  const video = streams.find(stream => stream.codec_type === 'video')
+  const formatName = data.format?.format_name || 'unknown'
+  // MediaRecorder WebM files carry no container duration, but may have a stream one
+  const duration = parseFloat(data.format?.duration ?? video?.duration ?? '')
+
+  return {
+    contentType: contentTypeOf(formatName, data.format?.tags?.major_brand, video?.codec_name),
+    formatName,
+    videoCodec: video?.codec_name,
+    width: video?.width,
+    height: video?.height,
+    durationSeconds: isNaN(duration) ? undefined : duration,
+    sizeBytes: size,
+    hasAudio: streams.some(stream => stream.codec_type === 'audio'),
+  }
+}
+
+/**
+ * Check that a local file is a video the API can process: within the size limit,
+ * with a video stream, and within the duration limit and in one of the allowed
+ * codecs and containers when those are given. Throws ValidationError naming the failed check
+ * in its field (`size`, `src`, `streams`, `duration`, `container` or `codec`).
+ *
+ * @example
+ * ```typescript
+ * const probe = validateVideo('upload.bin', {
+ *   maxDurationSeconds: 600,
+ *   allowedContainers: ['video/mp4', 'video/webm'],
+ * })
+ * console.log(probe.contentType) // 'video/webm'
+ * ```
+ */
+export function validateVideo(filePath: string, options: ValidateVideoOptions = {}): VideoProbe {
+  const {
+    maxSizeBytes = MAX_SOURCE_BYTES,
+    maxDurationSeconds,
+    allowedCodecs,
+    allowedContainers,
+  } = options
+
+  const { size } = fs.statSync(filePath)
+  checkSize(size, maxSizeBytes)
+
+  const probe = probeVideo(filePath, options.ctx)
+  if (!probe.videoCodec) {
+    throw new ValidationError(`${filePath} has no video stream`, 'streams')
+  }
+  if (maxDurationSeconds !== undefined) {
+    if (!probe.durationSeconds || probe.durationSeconds <= 0) {
+      throw new ValidationError(`Could not determine the duration of ${filePath}`, 'duration')
+    }
+    if (probe.durationSeconds > maxDurationSeconds) {
+      throw new ValidationError(
+        `Video is ${probe.durationSeconds.toFixed(1)}s long; the limit is ${maxDurationSeconds}s`,
+        'duration'
+      )
+    }
+  }
+  if (allowedCodecs && !allowedCodecs.includes(probe.videoCodec)) {
+    throw new ValidationError(
+      `Unsupported video codec: ${probe.videoCodec} (expected ${allowedCodecs.join(', ')})`,
+      'codec'
+    )
+  }
+  if (allowedContainers && !(probe.contentType && allowedContainers.includes(probe.contentType))) {
+    throw new ValidationError(
+      `Unsupported container: ${probe.formatName} (expected ${allowedContainers.join(', ')})`,
+      'container'
+    )
+  }
+  return probe
+}
+
+/**
+ * Throw ValidationError (field `size`) for sources over the size limit
+ */
+export function checkSize(sizeBytes: number, maxSizeBytes = MAX_SOURCE_BYTES): void {
+  if (sizeBytes === 0) {
+    throw new ValidationError('Video is empty', 'size')
+  }
+  if (sizeBytes > maxSizeBytes) {
+    throw new ValidationError(
+      `Video is ${sizeBytes} bytes; the limit is ${maxSizeBytes} bytes`,
+      'size'
+    )
+  }
+}
+
+/**
+ * Content type of an ffprobe container, if the API accepts it
+ */
+function contentTypeOf(
+  formatName: string,
+  majorBrand: string | undefined,
+  videoCodec: string | undefined
+): VideoContentType | undefined {
+  const names = formatName.split(',')
+  if (names.includes('mov') || names.includes('mp4')) {
+    // The QuickTime and MP4 demuxer is shared; the brand tells them apart
+    return majorBrand?.trim() === 'qt' ? 'video/mov' : 'video/mp4'
+  }
+  if (names.includes('webm') && (!videoCodec || WEBM_CODECS.includes(videoCodec))) {
+    return 'video/webm'
+  }
+  return undefined
+}
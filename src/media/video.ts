@@ -3,11 +3,26 @@
  * (from Python media/video.py)
  */
 
-import { VideoBGRemoverClient } from '../client'
-import { RemoveBGOptions, StatusCallback } from '../types'
+import { VideoBGRemoverClient, CreateJobFileUpload } from '../client'
+import {
+  RemoveBGOptions,
+  StatusCallback,
+  ProgressCallback,
+  UploadProgressCallback,
+  DownloadProgressCallback,
+  ResumableUploadOptions,
+} from '../types'
+import { ValidationError } from '../errors'
 import { Foreground } from './foreground'
 import { MediaContext, defaultContext } from './context'
 import { RemoveBGOptions as BGRemoveOptions } from './remove_bg'
+import type { JobEventSource } from '../webhooks/listener'
+import type { PollingStrategy } from '../polling'
+import type { JobJournal } from './journal'
+import type { ResultCache } from './cache'
+import type { BatchOptions, BatchItemResult } from './batch'
+import type { CreditEstimate, CreditEstimateOptions } from './credits'
+import type { ValidationLimits } from './validation'
 
 /**
  * Options for background removal processing
@@ -16,19 +31,100 @@ export interface RemoveBackgroundOptions {
   client: VideoBGRemoverClient
   options?: BGRemoveOptions
   waitPollSeconds?: number
+  /** Adaptive polling schedule (e.g. LengthAwarePolling); overrides waitPollSeconds */
+  polling?: PollingStrategy
   onStatus?: StatusCallback
+  /** Structured progress events for the whole pipeline, from format selection to the result */
+  onProgress?: ProgressCallback
   ctx?: MediaContext
   webhookUrl?: string
+  /** Cancels upload, polling and download when aborted */
+  signal?: AbortSignal
+  /** Called as the source video is uploaded to the signed URL */
+  onUploadProgress?: UploadProgressCallback
+  /** Upload local files in resumable parts (pass `true` for defaults) */
+  resumable?: boolean | ResumableUploadOptions
+  /** Called as the processed result is downloaded */
+  onDownloadProgress?: DownloadProgressCallback
+  /**
+   * Webhook event source (e.g. a WebhookListener) that finishes the wait as soon as the
+   * job's webhook arrives; its webhookUrl is registered unless webhookUrl is given.
+   * Without either webhook URL, status is polled every waitPollSeconds as usual.
+   */
+  events?: JobEventSource
+  /** Seconds between safety-net status polls while waiting on events (default: 30) */
+  fallbackPollSeconds?: number
+  /** Journal that records the job so it can be recovered after a crash */
+  journal?: JobJournal
+  /** Result cache; identical local sources are served from it without a new job */
+  cache?: ResultCache
+  /** Compare the estimated cost with the credit balance before creating the job */
+  checkCredits?: boolean
+  /** Credits charged per second of video, for estimates (default: 1) */
+  creditsPerSecond?: number
+  /** Delete the job and its stored files on the API once the result is downloaded */
+  deleteAfterDownload?: boolean
+  /**
+   * Probe local sources with ffprobe before creating the job and reject ones the API
+   * cannot process; pass limits to tighten the checks or `false` to skip them (default: true)
+   */
+  validate?: boolean | ValidationLimits
 }
 
 /**
- * Video representation that can be loaded from file or URL
+ * Options for re-attaching to an existing job (see Foreground.fromJob)
+ */
+export type ResumeJobOptions = Omit<
+  RemoveBackgroundOptions,
+  'client' | 'resumable' | 'onUploadProgress' | 'cache' | 'validate'
+>
+
+/**
+ * Container format of a video, as sent when creating an upload job
+ */
+export type VideoContentType = CreateJobFileUpload['content_type']
+
+/**
+ * Options for videos created from a buffer or stream
+ */
+export interface VideoDataOptions {
+  /** Container format of the data; there is no file extension to guess it from */
+  contentType: VideoContentType
+  /** Filename reported to the API (default: "video" with the extension of contentType) */
+  filename?: string
+  /** Size of a stream in bytes; streams of unknown size are spooled to disk before upload */
+  size?: number
+}
+
+const EXTENSIONS: Record<VideoContentType, string> = {
+  'video/mp4': '.mp4',
+  'video/mov': '.mov',
+  'video/webm': '.webm',
+}
+
+/**
+ * Video representation that can be loaded from a file, URL, buffer or stream
  */
 export class Video {
+  /** Container format, when given explicitly instead of guessed from the extension */
+  readonly contentType?: VideoContentType
+  /** Filename reported to the API, when it differs from the source path */
+  readonly filename?: string
+  /** Size in bytes, when known without reading the source */
+  readonly size?: number
+  private data?: Uint8Array | AsyncIterable<Uint8Array>
+
   private constructor(
-    public readonly kind: 'file' | 'url',
-    public readonly src: string
-  ) {}
+    public readonly kind: 'file' | 'url' | 'buffer' | 'stream',
+    public readonly src: string,
+    options?: VideoDataOptions,
+    data?: Uint8Array | AsyncIterable<Uint8Array>
+  ) {
+    this.contentType = options?.contentType
+    this.filename = options?.filename
+    this.size = options?.size
+    this.data = data
+  }
 
   /**
    * Open a video from file path or URL
@@ -39,26 +135,98 @@ export class Video {
     return new Video(kind, src)
   }
 
+  /**
+   * Use video data held in memory, e.g. a multipart upload.
+   * It is uploaded as is, without writing a temporary file.
+   */
+  static fromBuffer(buffer: Uint8Array, options: VideoDataOptions): Video {
+    const filename = options.filename || `video${EXTENSIONS[options.contentType]}`
+    return new Video('buffer', filename, { ...options, filename, size: buffer.byteLength }, buffer)
+  }
+
+  /**
+   * Use a readable stream of video data, e.g. an S3 object body. Streams can only be
+   * processed once; pass the size so the upload does not need a temporary file.
+   */
+  static fromStream(stream: AsyncIterable<Uint8Array>, options: VideoDataOptions): Video {
+    const filename = options.filename || `video${EXTENSIONS[options.contentType]}`
+    return new Video('stream', filename, { ...options, filename }, stream)
+  }
+
+  /**
+   * Data of a buffer or stream video (internal). Streams are handed out only once.
+   */
+  _takeData(): Uint8Array | AsyncIterable<Uint8Array> {
+    const data = this.data
+    if (!data) {
+      throw new ValidationError(
+        this.kind === 'stream'
+          ? 'Stream videos can only be processed once'
+          : `${this.kind} videos have no in-memory data`,
+        'src'
+      )
+    }
+    if (this.kind === 'stream') {
+      this.data = undefined
+    }
+    return data
+  }
+
+  /**
+   * Move the data of a stream video to a new instance, so reusing this one fails
+   * right away (internal)
+   */
+  _claim(): Video {
+    return new Video(this.kind, this.src, this._options(), this._takeData())
+  }
+
+  /**
+   * The same video after its data was written to a local file (internal)
+   */
+  _spooledTo(filePath: string): Video {
+    return new Video('file', filePath, this._options())
+  }
+
+  private _options(): VideoDataOptions {
+    return { contentType: this.contentType!, filename: this.filename, size: this.size }
+  }
+
+  /**
+   * Remove backgrounds from many videos with separate upload, job and download
+   * concurrency limits. Per-item failures are collected in the result map, keyed by
+   * video, so each Video instance may appear only once.
+   */
+  static async removeBackgroundMany(
+    videos: Video[],
+    opts: BatchOptions
+  ): Promise<Map<Video, BatchItemResult>> {
+    // Import here to avoid circular imports
+    const { BatchProcessor } = await import('./batch')
+    return new BatchProcessor(opts).run(videos)
+  }
+
   /**
    * Remove background from this video
    */
   async removeBackground(opts: RemoveBackgroundOptions): Promise<Foreground> {
-    const {
-      client,
-      options = new RemoveBGOptions(),
-      waitPollSeconds = 2.0,
-      onStatus,
-      ctx,
-      webhookUrl,
-    } = opts
+    const { client, options = new RemoveBGOptions(), ctx } = opts
 
     // Import here to avoid circular imports
-    const { Importer } = await import('./_importer_internal')
+    const { Importer, toImportOptions } = await import('./_importer_internal')
 
     const context = ctx || defaultContext()
     const importer = new Importer(context)
 
-    return importer.removeBackground(this, client, options, waitPollSeconds, onStatus, webhookUrl)
+    return importer.removeBackground(this, client, options, toImportOptions(opts))
+  }
+
+  /**
+   * Estimate the credits processing this video will cost, from its duration
+   */
+  async estimateCredits(options: CreditEstimateOptions = {}): Promise<CreditEstimate> {
+    // Import here to avoid circular imports
+    const { estimateCredits } = await import('./credits')
+    return estimateCredits(this, options)
   }
 
   /**
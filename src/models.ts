@@ -0,0 +1,303 @@
+/**
+ * API response models
+ *
+ * Each schema validates a raw snake_case API response and converts it to the
+ * camelCase model returned by VideoBGRemoverClient, with timestamps as Dates.
+ */
+
+import { z } from 'zod'
+import { ResponseValidationError } from './errors'
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * Processing state of a job
+ */
+export type JobState = 'created' | 'uploaded' | 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Background a job was started with
+ */
+export interface JobBackground {
+  type: 'color' | 'transparent'
+  color?: string
+  transparentFormat?: string
+}
+
+/**
+ * A job and its processing state
+ */
+export interface Job {
+  id: string
+  /** Processing state; states added to the API later are passed through as-is */
+  status: JobState | (string & Record<never, never>)
+  filename: string
+  createdAt: Date
+  /** Length of the source video in seconds, once known */
+  lengthSeconds?: number
+  thumbnailUrl?: string
+  transparentThumbnailUrl?: string
+  processedVideoUrl?: string
+  processedMaskUrl?: string
+  message?: string
+  background?: JobBackground
+  outputFormat?: string
+  exportId?: string
+}
+
+/**
+ * Job as returned when starting it; the API may leave out the filename and creation time
+ */
+export type StartedJob = Omit<Job, 'filename' | 'createdAt'> &
+  Partial<Pick<Job, 'filename' | 'createdAt'>>
+
+/**
+ * Job created for a file upload, with the signed URL to upload the source to
+ */
+export interface CreatedJob {
+  id: string
+  uploadUrl: string
+  expiresAt?: Date
+}
+
+/**
+ * User credits information
+ */
+export interface Credits {
+  totalCredits: number
+  remainingCredits: number
+  usedCredits: number
+}
+
+/**
+ * One attempt at delivering a webhook
+ */
+export interface WebhookDelivery {
+  eventType: string
+  webhookUrl: string
+  attemptNumber: number
+  deliveryStatus: string
+  httpStatusCode?: number
+  errorMessage?: string
+  scheduledAt: Date
+  deliveredAt?: Date
+  /** Payload as sent; older deliveries may lack any of these fields */
+  payload: {
+    jobId?: string
+    userId?: string
+    status?: string
+    fileName?: string
+    errorMessage?: string
+    source?: string
+  }
+  createdAt: Date
+}
+
+/**
+ * Webhook delivery history of a job
+ */
+export interface WebhookDeliveries {
+  videoId: string
+  totalDeliveries: number
+  deliveries: WebhookDelivery[]
+}
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+/**
+ * Optional field the API may send as null
+ */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined)
+
+const timestamp = z
+  .string()
+  .refine(value => !Number.isNaN(Date.parse(value)), { message: 'Invalid timestamp' })
+  .transform(value => new Date(value))
+
+const backgroundSchema = z
+  .object({
+    type: z.enum(['color', 'transparent']),
+    color: optional(z.string()),
+    transparent_format: optional(z.string()),
+  })
+  .transform(
+    (background): JobBackground => ({
+      type: background.type,
+      color: background.color,
+      transparentFormat: background.transparent_format,
+    })
+  )
+
+const jobFields = z.object({
+  id: z.string(),
+  status: z.string(),
+  filename: z.string(),
+  created_at: timestamp,
+  length_seconds: optional(z.number()),
+  thumbnail_url: optional(z.string()),
+  transparent_thumbnail_url: optional(z.string()),
+  processed_video_url: optional(z.string()),
+  processed_mask_url: optional(z.string()),
+  message: optional(z.string()),
+  background: optional(backgroundSchema),
+  output_format: optional(z.string()),
+  export_id: optional(z.string()),
+})
+
+const toStartedJob = (
+  job: Omit<z.output<typeof jobFields>, 'filename' | 'created_at'> & {
+    filename?: string
+    created_at?: Date
+  }
+): StartedJob => ({
+  id: job.id,
+  status: job.status,
+  filename: job.filename,
+  createdAt: job.created_at,
+  lengthSeconds: job.length_seconds,
+  thumbnailUrl: job.thumbnail_url,
+  transparentThumbnailUrl: job.transparent_thumbnail_url,
+  processedVideoUrl: job.processed_video_url,
+  processedMaskUrl: job.processed_mask_url,
+  message: job.message,
+  background: job.background,
+  outputFormat: job.output_format,
+  exportId: job.export_id,
+})
+
+export const jobSchema = jobFields.transform(
+  (job): Job => ({ ...toStartedJob(job), filename: job.filename, createdAt: job.created_at })
+)
+
+export const startedJobSchema = jobFields
+  .partial({ filename: true, created_at: true })
+  .transform(toStartedJob)
+
+export const createdJobSchema = z
+  .object({
+    id: z.string(),
+    upload_url: z.string(),
+    expires_at: optional(timestamp),
+  })
+  .transform(
+    (job): CreatedJob => ({ id: job.id, uploadUrl: job.upload_url, expiresAt: job.expires_at })
+  )
+
+export const createdUrlJobSchema = z.object({ id: z.string() })
+
+export const jobListPageSchema = z
+  .object({
+    jobs: z.array(jobSchema),
+    next_cursor: optional(z.string()),
+  })
+  .transform(page => ({ jobs: page.jobs, nextCursor: page.next_cursor }))
+
+export const creditsSchema = z
+  .object({
+    total_credits: z.number(),
+    remaining_credits: z.number(),
+    used_credits: z.number(),
+  })
+  .transform(
+    (credits): Credits => ({
+      totalCredits: credits.total_credits,
+      remainingCredits: credits.remaining_credits,
+      usedCredits: credits.used_credits,
+    })
+  )
+
+const webhookDeliverySchema = z
+  .object({
+    event_type: z.string(),
+    webhook_url: z.string(),
+    attempt_number: z.number(),
+    delivery_status: z.string(),
+    http_status_code: optional(z.number()),
+    error_message: optional(z.string()),
+    scheduled_at: timestamp,
+    delivered_at: optional(timestamp),
+    payload: z.object({
+      job_id: optional(z.string()),
+      user_id: optional(z.string()),
+      status: optional(z.string()),
+      file_name: optional(z.string()),
+      error_message: optional(z.string()),
+      source: optional(z.string()),
+    }),
+    created_at: timestamp,
+  })
+  .transform(
+    (delivery): WebhookDelivery => ({
+      eventType: delivery.event_type,
+      webhookUrl: delivery.webhook_url,
+      attemptNumber: delivery.attempt_number,
+      deliveryStatus: delivery.delivery_status,
+      httpStatusCode: delivery.http_status_code,
+      errorMessage: delivery.error_message,
+      scheduledAt: delivery.scheduled_at,
+      deliveredAt: delivery.delivered_at,
+      payload: {
+        jobId: delivery.payload.job_id,
+        userId: delivery.payload.user_id,
+        status: delivery.payload.status,
+        fileName: delivery.payload.file_name,
+        errorMessage: delivery.payload.error_message,
+        source: delivery.payload.source,
+      },
+      createdAt: delivery.created_at,
+    })
+  )
+
+export const webhookDeliveriesSchema = z
+  .object({
+    video_id: z.string(),
+    total_deliveries: z.number(),
+    deliveries: z.array(webhookDeliverySchema),
+  })
+  .transform(
+    (history): WebhookDeliveries => ({
+      videoId: history.video_id,
+      totalDeliveries: history.total_deliveries,
+      deliveries: history.deliveries,
+    })
+  )
+
+// ============================================================================
+// RAW API SHAPES
+// ============================================================================
+
+/** Raw job status as sent by the API */
+export type JobStatus = z.input<typeof jobSchema>
+
+/** Raw credit balance as sent by the API */
+export type CreditBalance = z.input<typeof creditsSchema>
+
+/** Raw page of jobs as sent by the API */
+export type JobListPage = z.input<typeof jobListPageSchema>
+
+/**
+ * Validate an API response and convert it to its model, or throw ResponseValidationError
+ */
+export function parseResponse<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  endpoint: string
+): z.output<T> {
+  const result = schema.safeParse(data)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    )
+    throw new ResponseValidationError(
+      `Unexpected response from ${endpoint}: ${issues.join('; ')}`,
+      endpoint,
+      issues
+    )
+  }
+  return result.data
+}
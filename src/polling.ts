@@ -0,0 +1,139 @@
+/**
+ * Polling strategies that decide how often client.wait() checks job status
+ */
+
+import type { Job } from './models'
+
+/**
+ * What a polling strategy knows after each status check
+ */
+export interface PollContext {
+  /** Number of status checks made so far (1-based) */
+  attempt: number
+  /** Milliseconds since waiting started */
+  elapsedMs: number
+  /** Latest job status */
+  status: Job
+}
+
+/**
+ * Decides the delay before the next status check and, optionally, when the job will finish
+ */
+export interface PollingStrategy {
+  /** Seconds to wait before the next status check */
+  nextPollSeconds(context: PollContext): number
+  /** Estimated seconds until the job completes, if the strategy can tell */
+  estimateRemainingSeconds?(context: PollContext): number | undefined
+}
+
+/**
+ * Poll at a fixed interval (the default behaviour of client.wait())
+ */
+export class FixedPolling implements PollingStrategy {
+  constructor(private readonly seconds = 2.0) {}
+
+  nextPollSeconds(): number {
+    return this.seconds
+  }
+}
+
+/**
+ * Options for exponentially growing poll intervals
+ */
+export interface ExponentialPollingOptions {
+  /** First interval in seconds (default: 1) */
+  initialSeconds?: number
+  /** Growth factor applied after every check (default: 1.5) */
+  factor?: number
+  /** Longest interval in seconds (default: 30) */
+  maxSeconds?: number
+}
+
+/**
+ * Poll quickly at first and back off the longer the job runs
+ */
+export class ExponentialPolling implements PollingStrategy {
+  private readonly initialSeconds: number
+  private readonly factor: number
+  private readonly maxSeconds: number
+
+  constructor(options: ExponentialPollingOptions = {}) {
+    this.initialSeconds = options.initialSeconds ?? 1
+    this.factor = options.factor ?? 1.5
+    this.maxSeconds = options.maxSeconds ?? 30
+  }
+
+  nextPollSeconds({ attempt }: PollContext): number {
+    return Math.min(this.maxSeconds, this.initialSeconds * this.factor ** (attempt - 1))
+  }
+}
+
+/**
+ * Options for intervals derived from the video length
+ */
+export interface LengthAwarePollingOptions {
+  /** Processing seconds per second of video (default: 1.5) */
+  processingRatio?: number
+  /** Fixed per-job overhead in seconds, e.g. queueing and encoding (default: 10) */
+  overheadSeconds?: number
+  /** Shortest interval in seconds (default: 1) */
+  minSeconds?: number
+  /** Longest interval in seconds (default: 30) */
+  maxSeconds?: number
+}
+
+/**
+ * Estimate the finish time from the job's `lengthSeconds` and poll more often as it approaches.
+ *
+ * The interval is half the estimated remaining time, clamped to [minSeconds, maxSeconds].
+ * Once a job runs past its estimate, the interval grows with the overrun. Until the API
+ * reports the length, the strategy backs off exponentially from minSeconds.
+ */
+export class LengthAwarePolling implements PollingStrategy {
+  private readonly processingRatio: number
+  private readonly overheadSeconds: number
+  private readonly minSeconds: number
+  private readonly maxSeconds: number
+
+  constructor(options: LengthAwarePollingOptions = {}) {
+    this.processingRatio = options.processingRatio ?? 1.5
+    this.overheadSeconds = options.overheadSeconds ?? 10
+    this.minSeconds = options.minSeconds ?? 1
+    this.maxSeconds = options.maxSeconds ?? 30
+  }
+
+  nextPollSeconds(context: PollContext): number {
+    const remaining = this.estimateRemainingSeconds(context)
+    if (remaining === undefined) {
+      return this.clamp(this.minSeconds * 1.5 ** (context.attempt - 1))
+    }
+    if (remaining > 0) {
+      return this.clamp(remaining / 2)
+    }
+
+    const overrun = context.elapsedMs / 1000 - this.expectedSeconds(context.status)!
+    return this.clamp(overrun / 4)
+  }
+
+  estimateRemainingSeconds(context: PollContext): number | undefined {
+    const expected = this.expectedSeconds(context.status)
+    if (expected === undefined) {
+      return undefined
+    }
+    return Math.max(0, expected - context.elapsedMs / 1000)
+  }
+
+  /**
+   * Expected total processing time, or undefined while the length is unknown
+   */
+  private expectedSeconds(status: Job): number | undefined {
+    if (!status.lengthSeconds) {
+      return undefined
+    }
+    return this.overheadSeconds + status.lengthSeconds * this.processingRatio
+  }
+
+  private clamp(seconds: number): number {
+    return Math.min(this.maxSeconds, Math.max(this.minSeconds, seconds))
+  }
+}
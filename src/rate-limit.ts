@@ -0,0 +1,157 @@
+/**
+ * Rate limit header parsing and client-side request throttling
+ */
+
+import { AbortError, RateLimitInfo } from './errors'
+import { onAbort, throwIfAborted } from './abort'
+import type { RateLimitOptions } from './types'
+import { sleep } from './retry'
+
+type Headers = Record<string, unknown>
+
+/**
+ * Read a numeric header value, accepting both X-RateLimit-* and RateLimit-* names
+ */
+function numericHeader(headers: Headers, name: string): number | undefined {
+  const raw = headers[`x-ratelimit-${name}`] ?? headers[`ratelimit-${name}`]
+  if (raw === undefined || raw === null) {
+    return undefined
+  }
+  const value = parseFloat(String(raw))
+  return isNaN(value) ? undefined : value
+}
+
+/**
+ * Parse rate limit headers (limit, remaining, reset) from a response
+ */
+export function parseRateLimitHeaders(headers: Headers = {}): RateLimitInfo {
+  const info: RateLimitInfo = {}
+
+  const limit = numericHeader(headers, 'limit')
+  if (limit !== undefined) {
+    info.limit = limit
+  }
+
+  const remaining = numericHeader(headers, 'remaining')
+  if (remaining !== undefined) {
+    info.remaining = remaining
+  }
+
+  // Reset is either a Unix timestamp or a number of seconds from now
+  const reset = numericHeader(headers, 'reset')
+  if (reset !== undefined) {
+    info.reset = new Date(reset > 1_000_000_000 ? reset * 1000 : Date.now() + reset * 1000)
+  }
+
+  return info
+}
+
+/**
+ * Parse the Retry-After header (delta seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(headers: Headers = {}): number | undefined {
+  const raw = headers['retry-after']
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined
+  }
+
+  const seconds = Number(raw)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds)
+  }
+
+  const date = Date.parse(String(raw))
+  if (!isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000)
+  }
+
+  return undefined
+}
+
+/**
+ * Spaces out and caps concurrent requests, and pauses all of them while the
+ * API reports that the rate limit is exhausted.
+ */
+export class RequestThrottler {
+  private readonly interval: number
+  private readonly maxConcurrent: number
+  private readonly waiting: Array<() => void> = []
+  private active = 0
+  private nextSlot = 0
+  private pausedUntil = 0
+
+  constructor(options: RateLimitOptions = {}) {
+    this.interval = options.requestsPerSecond ? 1000 / options.requestsPerSecond : 0
+    this.maxConcurrent = options.maxConcurrent || Infinity
+  }
+
+  /**
+   * Wait for a request slot. Call the returned function once the request settles.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    throwIfAborted(signal)
+    if (this.active < this.maxConcurrent) {
+      this.active++
+    } else {
+      // The releasing request hands its slot over directly
+      await new Promise<void>((resolve, reject) => {
+        const waiter = () => {
+          removeListener()
+          resolve()
+        }
+        const removeListener = onAbort(signal, () => {
+          this.waiting.splice(this.waiting.indexOf(waiter), 1)
+          reject(new AbortError())
+        })
+        this.waiting.push(waiter)
+      })
+    }
+
+    let released = false
+    const release = () => {
+      if (!released) {
+        released = true
+        this.release()
+      }
+    }
+
+    const now = Date.now()
+    const start = Math.max(now, this.nextSlot, this.pausedUntil)
+    this.nextSlot = start + this.interval
+    if (start > now) {
+      try {
+        await sleep(start - now, signal)
+      } catch (error) {
+        release()
+        throw error
+      }
+    }
+
+    return release
+  }
+
+  /**
+   * Hold back every request for the given number of milliseconds
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  /**
+   * Pause until the window resets when the API reports no remaining requests
+   */
+  update(info: RateLimitInfo): void {
+    if (info.remaining === 0 && info.reset) {
+      this.pauseFor(info.reset.getTime() - Date.now())
+    }
+  }
+
+  private release(): void {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.active--
+    }
+  }
+}
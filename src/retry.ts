@@ -0,0 +1,127 @@
+/**
+ * Retry policy with exponential backoff for transient API failures
+ */
+
+import type { RetryOptions } from './types'
+import { AbortError, ApiError, TransportError } from './errors'
+import { onAbort, throwIfAborted } from './abort'
+
+/**
+ * Status codes that indicate a transient failure worth retrying
+ */
+export const DEFAULT_RETRY_STATUS_CODES = [408, 429, 502, 503, 504]
+
+/**
+ * Network error codes raised before the request reached the server.
+ * Retrying these never duplicates work, even for non-idempotent calls.
+ */
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']
+
+/**
+ * Network error codes raised while a request may already be in flight
+ */
+const TRANSIENT_ERROR_CODES = [
+  ...CONNECT_ERROR_CODES,
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'EPIPE',
+]
+
+/**
+ * Minimal description of a failed attempt used to make retry decisions
+ */
+export interface FailedAttempt {
+  /** HTTP status code, if the server answered */
+  status?: number
+  /** Network error code (e.g. ECONNRESET), if the request never got an answer */
+  code?: string
+}
+
+/**
+ * Describe a thrown error as a failed attempt: API errors by status, transport errors by code
+ */
+export function failureOf(error: unknown): FailedAttempt {
+  return {
+    status: error instanceof ApiError ? error.statusCode : undefined,
+    code: error instanceof TransportError ? error.code : undefined,
+  }
+}
+
+/**
+ * Decides whether and when a failed request is retried
+ */
+export class RetryPolicy {
+  public readonly maxAttempts: number
+  public readonly baseDelay: number
+  public readonly maxDelay: number
+  public readonly retryStatusCodes: number[]
+  public readonly jitter: boolean
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+    this.baseDelay = options.baseDelay ?? 500
+    this.maxDelay = options.maxDelay ?? 30000
+    this.retryStatusCodes = options.retryStatusCodes || DEFAULT_RETRY_STATUS_CODES
+    this.jitter = options.jitter ?? true
+  }
+
+  /**
+   * Policy that never retries
+   */
+  static none(): RetryPolicy {
+    return new RetryPolicy({ maxAttempts: 1 })
+  }
+
+  /**
+   * Check if a failed attempt should be retried.
+   *
+   * Non-idempotent requests (job creation, job start) are only retried when the
+   * server provably did not act on them: connection failures before the request
+   * was sent, or an explicit 429 rejection.
+   */
+  shouldRetry(attempt: number, failure: FailedAttempt, idempotent = true): boolean {
+    if (attempt >= this.maxAttempts) {
+      return false
+    }
+
+    if (failure.status !== undefined) {
+      if (!idempotent) {
+        return failure.status === 429 && this.retryStatusCodes.includes(429)
+      }
+      return this.retryStatusCodes.includes(failure.status)
+    }
+
+    if (!failure.code) {
+      return false
+    }
+    return idempotent
+      ? TRANSIENT_ERROR_CODES.includes(failure.code)
+      : CONNECT_ERROR_CODES.includes(failure.code)
+  }
+
+  /**
+   * Backoff delay in milliseconds before the next attempt (attempt is 1-based)
+   */
+  delay(attempt: number): number {
+    const exponential = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1))
+    return this.jitter ? Math.random() * exponential : exponential
+  }
+}
+
+/**
+ * Promise-based sleep that rejects with AbortError when the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal)
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      removeListener()
+      resolve()
+    }, ms)
+    const removeListener = onAbort(signal, () => {
+      clearTimeout(timer)
+      reject(new AbortError())
+    })
+  })
+}
@@ -0,0 +1,16 @@
+/**
+ * Test utilities (`@videobgremover/sdk/testing`)
+ *
+ * A local mock of the VideoBGRemover API for integration tests that should not call the
+ * real service or spend credits.
+ */
+
+export { MockApiServer } from './server'
+export type {
+  MockApiServerOptions,
+  MockJobScript,
+  MockFailure,
+  MockWebhookDelivery,
+} from './server'
+export { FFmpegRenderer } from './renderer'
+export type { MockRenderer, MockRenderJob, FFmpegRendererOptions } from './renderer'
@@ -0,0 +1,191 @@
+/**
+ * Result rendering for the mock API server
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import AdmZip from 'adm-zip'
+import { MediaContext, defaultContext } from '../media/context'
+import { probeDuration } from '../media/credits'
+
+const execFileAsync = promisify(execFile)
+
+const h264 = ['-c:v', 'libx264', '-preset', 'ultrafast', '-pix_fmt', 'yuv420p', '-c:a', 'aac']
+
+/**
+ * A started job whose result should be produced
+ */
+export interface MockRenderJob {
+  id: string
+  /** Uploaded or downloaded source video */
+  sourcePath: string
+  /** Directory to write the result to */
+  outputDir: string
+  background: {
+    type: 'color' | 'transparent'
+    color?: string
+    transparent_format?: string
+  }
+}
+
+/**
+ * Produces job results for the mock API server
+ */
+export interface MockRenderer {
+  /** Length of a source video in seconds, used for billing and `length_seconds` */
+  probe(sourcePath: string): number | Promise<number>
+  /** Write the result of a job to its outputDir and return the file path */
+  render(job: MockRenderJob): Promise<string>
+}
+
+/**
+ * Options for the FFmpeg renderer
+ */
+export interface FFmpegRendererOptions {
+  ctx?: MediaContext
+  /** Screen color keyed out to make the fake matte (default: 0x00FF00) */
+  keyColor?: string
+}
+
+/**
+ * Renders results locally with FFmpeg: the key color is removed with `chromakey`
+ * and the outcome is encoded in the requested output format
+ */
+export class FFmpegRenderer implements MockRenderer {
+  private readonly keyColor: string
+
+  constructor(private readonly options: FFmpegRendererOptions = {}) {
+    this.keyColor = options.keyColor || '0x00FF00'
+  }
+
+  private get ctx(): MediaContext {
+    return this.options.ctx || defaultContext()
+  }
+
+  probe(sourcePath: string): number {
+    return probeDuration(sourcePath, this.ctx)
+  }
+
+  async render(job: MockRenderJob): Promise<string> {
+    const { sourcePath, outputDir, background } = job
+    const key = `scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuva420p,chromakey=${this.keyColor}:0.3:0.1`
+
+    if (background.type === 'color') {
+      const output = path.join(outputDir, 'result.mp4')
+      await this.ffmpeg([
+        '-i',
+        sourcePath,
+        '-filter_complex',
+        `[0:v]${key},split[fg][base];` +
+          `[base]drawbox=c=${background.color || 'black'}:t=fill,format=yuv420p[bg];` +
+          '[bg][fg]overlay,format=yuv420p[out]',
+        '-map',
+        '[out]',
+        '-map',
+        '0:a?',
+        ...h264,
+        output,
+      ])
+      return output
+    }
+
+    const format = background.transparent_format || 'webm_vp9'
+    switch (format) {
+      case 'webm_vp9': {
+        const output = path.join(outputDir, 'result.webm')
+        await this.ffmpeg([
+          '-i',
+          sourcePath,
+          '-vf',
+          key,
+          '-c:v',
+          'libvpx-vp9',
+          '-pix_fmt',
+          'yuva420p',
+          '-auto-alt-ref',
+          '0',
+          '-deadline',
+          'realtime',
+          '-cpu-used',
+          '8',
+          '-c:a',
+          'libopus',
+          output,
+        ])
+        return output
+      }
+      case 'mov_prores': {
+        const output = path.join(outputDir, 'result.mov')
+        await this.ffmpeg([
+          '-i',
+          sourcePath,
+          '-vf',
+          `${key},format=yuva444p10le`,
+          '-c:v',
+          'prores_ks',
+          '-profile:v',
+          '4444',
+          '-c:a',
+          'aac',
+          output,
+        ])
+        return output
+      }
+      case 'stacked_video': {
+        const output = path.join(outputDir, 'result.mp4')
+        await this.ffmpeg([
+          '-i',
+          sourcePath,
+          '-filter_complex',
+          `[0:v]${key},split[fg][matte];` +
+            '[matte]alphaextract,format=yuv420p[alpha];[fg]format=yuv420p[color];' +
+            '[color][alpha]vstack[out]',
+          '-map',
+          '[out]',
+          '-map',
+          '0:a?',
+          ...h264,
+          output,
+        ])
+        return output
+      }
+      case 'pro_bundle': {
+        const colorPath = path.join(outputDir, 'color.mp4')
+        const alphaPath = path.join(outputDir, 'alpha.mp4')
+        const audioPath = path.join(outputDir, 'audio.m4a')
+        await this.ffmpeg(['-i', sourcePath, '-vf', key, '-an', ...h264, colorPath])
+        await this.ffmpeg([
+          '-i',
+          sourcePath,
+          '-vf',
+          `${key},alphaextract,format=yuv420p`,
+          '-an',
+          ...h264,
+          alphaPath,
+        ])
+
+        const zip = new AdmZip()
+        zip.addLocalFile(colorPath)
+        zip.addLocalFile(alphaPath)
+        try {
+          await this.ffmpeg(['-i', sourcePath, '-vn', '-c:a', 'aac', audioPath])
+          zip.addLocalFile(audioPath)
+        } catch {
+          // Source without an audio track
+        }
+        const output = path.join(outputDir, 'result.zip')
+        zip.writeZip(output)
+        return output
+      }
+      default:
+        throw new Error(`Unsupported transparent format in mock server: ${format}`)
+    }
+  }
+
+  private async ffmpeg(args: string[]): Promise<void> {
+    fs.mkdirSync(path.dirname(args[args.length - 1]!), { recursive: true })
+    await execFileAsync(this.ctx.ffmpeg, ['-y', '-v', 'error', ...args])
+  }
+}
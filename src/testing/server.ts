@@ -0,0 +1,684 @@
+/**
+ * Local mock of the VideoBGRemover API for tests
+ *
+ * Implements job creation, signed uploads (plain and ranged), start, status, listing,
+ * cancellation, deletion, credits, webhook deliveries and result downloads, keeping all
+ * state in memory and files in a temporary directory.
+ */
+
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { AddressInfo, Socket } from 'net'
+import { pipeline } from 'stream/promises'
+import type { WebhookPayload } from '../types'
+import type { JobState, JobStatus } from '../models'
+import { WEBHOOK_SIGNATURE_HEADER, signWebhookPayload } from '../webhooks/events'
+import { AxiosTransport } from '../transport/axios'
+import { FFmpegRenderer, MockRenderJob, MockRenderer } from './renderer'
+
+/**
+ * Options for the mock API server
+ */
+export interface MockApiServerOptions {
+  /** Port to listen on (default: random free port) */
+  port?: number
+  /** Interface to bind (default: 127.0.0.1) */
+  host?: string
+  /** Only accept this API key (default: any non-empty key) */
+  apiKey?: string
+  /** Starting credit balance (default: 1000) */
+  credits?: number
+  /** Credits charged per second of video when a job starts (default: 1) */
+  creditsPerSecond?: number
+  /** Seconds a job stays processing before its result is rendered (default: 0) */
+  processingSeconds?: number
+  /** Produces job results (default: FFmpegRenderer) */
+  renderer?: MockRenderer
+  /** Secret used to sign webhook deliveries (default: 'whsec_test') */
+  webhookSecret?: string
+  /** Directory for uploads and results (default: a temporary directory removed on close) */
+  dataDir?: string
+}
+
+/**
+ * Behaviour scripted for a job
+ */
+export interface MockJobScript {
+  /** Fail processing with this message */
+  fail?: string
+  /** Seconds the job stays processing; Infinity waits for finishJob() */
+  processingSeconds?: number
+  /** Send webhook deliveries for this job (default: true) */
+  webhooks?: boolean
+}
+
+/**
+ * Failure injected into matching requests, e.g. to exercise retries
+ */
+export interface MockFailure {
+  /** HTTP method to match (default: any) */
+  method?: string
+  /** Request path to match, exactly or by pattern */
+  path: string | RegExp
+  /** Status to answer with, or 'disconnect' to drop the connection */
+  status: number | 'disconnect'
+  /** JSON body (default: `{ error: 'Injected failure' }`) */
+  body?: unknown
+  headers?: Record<string, string>
+  /** Number of matching requests that fail (default: 1) */
+  times?: number
+}
+
+/**
+ * A webhook delivery attempted by the mock server
+ */
+export interface MockWebhookDelivery {
+  url: string
+  payload: WebhookPayload
+  /** Status returned by the receiver, if it answered */
+  statusCode?: number
+  error?: string
+}
+
+interface MockJob {
+  id: string
+  filename: string
+  status: JobState
+  createdAt: Date
+  dir: string
+  sourcePath: string
+  videoUrl?: string
+  lengthSeconds?: number
+  background?: MockRenderJob['background']
+  outputFormat?: string
+  webhookUrl?: string
+  message?: string
+  resultPath?: string
+  script: MockJobScript
+  timer?: NodeJS.Timeout
+  deliveries: Record<string, unknown>[]
+}
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Local HTTP server that behaves like the VideoBGRemover API
+ *
+ * @example
+ * ```typescript
+ * const mock = await MockApiServer.start({ processingSeconds: 1 })
+ * const client = new VideoBGRemoverClient('test_key', { baseUrl: mock.url })
+ *
+ * mock.nextJob({ fail: 'Model crashed' })
+ * await expect(video.removeBackground({ client })).rejects.toThrow('Model crashed')
+ * await mock.close()
+ * ```
+ */
+export class MockApiServer {
+  /** Every request received, as "METHOD /path" */
+  readonly requests: string[] = []
+  /** Every webhook delivery attempted */
+  readonly webhookDeliveries: MockWebhookDelivery[] = []
+  /** Credits left; set to 0 to make job starts fail with 402 */
+  remainingCredits: number
+  usedCredits = 0
+
+  private readonly jobs = new Map<string, MockJob>()
+  private readonly scripts: MockJobScript[] = []
+  private readonly failures: MockFailure[] = []
+  private readonly pending = new Set<Promise<unknown>>()
+  // Open connections, closed by close() (server.closeAllConnections() needs Node 18.2)
+  private readonly sockets = new Set<Socket>()
+  private readonly renderer: MockRenderer
+  private readonly transport = new AxiosTransport()
+  private jobCount = 0
+
+  private constructor(
+    private readonly server: http.Server,
+    private readonly dataDir: string,
+    private readonly ownsDataDir: boolean,
+    private readonly options: MockApiServerOptions
+  ) {
+    this.remainingCredits = options.credits ?? 1000
+    this.renderer = options.renderer || new FFmpegRenderer()
+  }
+
+  /**
+   * Start the mock server
+   */
+  static async start(options: MockApiServerOptions = {}): Promise<MockApiServer> {
+    const dataDir =
+      options.dataDir || fs.mkdtempSync(path.join(os.tmpdir(), 'videobgremover_mock_'))
+    const server = http.createServer()
+    const mock = new MockApiServer(server, dataDir, !options.dataDir, options)
+    server.on('request', (req, res) => mock.handle(req, res))
+    server.on('connection', socket => {
+      mock.sockets.add(socket)
+      socket.once('close', () => mock.sockets.delete(socket))
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+    return mock
+  }
+
+  /**
+   * Base URL to pass as the client's baseUrl
+   */
+  get url(): string {
+    const { address, port } = this.server.address() as AddressInfo
+    return `http://${address.includes(':') ? `[${address}]` : address}:${port}`
+  }
+
+  /**
+   * Port the server is bound to
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port
+  }
+
+  /**
+   * Script the behaviour of the next created job; calls queue up for later jobs
+   */
+  nextJob(script: MockJobScript): this {
+    this.scripts.push(script)
+    return this
+  }
+
+  /**
+   * Fail matching requests before they are handled
+   */
+  failRequests(failure: MockFailure): this {
+    this.failures.push({ ...failure, times: failure.times ?? 1 })
+    return this
+  }
+
+  /**
+   * Raw API status of a job, as the status endpoint returns it
+   */
+  job(jobId: string): JobStatus | undefined {
+    const job = this.jobs.get(jobId)
+    return job && this.toStatus(job)
+  }
+
+  /**
+   * Finish a processing job now, e.g. one scripted with processingSeconds: Infinity
+   */
+  async finishJob(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'processing') {
+      return
+    }
+    clearTimeout(job.timer)
+    job.timer = undefined
+
+    try {
+      if (job.script.fail) {
+        throw new Error(job.script.fail)
+      }
+      const resultPath = await this.renderer.render({
+        id: job.id,
+        sourcePath: job.sourcePath,
+        outputDir: path.join(job.dir, 'results'),
+        background: job.background!,
+      })
+      // Cancelled or deleted while rendering
+      if (job.status !== 'processing') {
+        return
+      }
+      job.resultPath = resultPath
+      job.status = 'completed'
+    } catch (error) {
+      job.status = 'failed'
+      job.message = error instanceof Error ? error.message : String(error)
+    }
+    this.sendWebhook(job, job.status === 'completed' ? 'completed' : 'failed')
+  }
+
+  /**
+   * Wait for in-flight requests, renders and webhook deliveries to finish
+   */
+  async settled(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.allSettled([...this.pending])
+    }
+  }
+
+  /**
+   * Stop the server, cancel pending jobs and remove the files it created
+   */
+  async close(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      clearTimeout(job.timer)
+    }
+    const closed = new Promise<void>((resolve, reject) =>
+      this.server.close(error => (error ? reject(error) : resolve()))
+    )
+    for (const socket of this.sockets) {
+      socket.destroy()
+    }
+    await closed
+    await Promise.allSettled([...this.pending])
+    if (this.ownsDataDir) {
+      fs.rmSync(this.dataDir, { recursive: true, force: true })
+    }
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://localhost')
+    this.requests.push(`${req.method} ${url.pathname}`)
+
+    const failure = this.takeFailure(req.method || 'GET', url.pathname)
+    if (failure) {
+      if (failure.status === 'disconnect') {
+        req.socket.destroy()
+      } else {
+        this.json(
+          res,
+          failure.status,
+          failure.body ?? { error: 'Injected failure' },
+          failure.headers
+        )
+      }
+      return
+    }
+
+    const work = this.route(req, url, res).catch(error => {
+      if (res.headersSent) {
+        // Failed mid-response, e.g. the client dropped a download
+        res.destroy()
+      } else if (error instanceof HttpError) {
+        this.json(res, error.status, { error: error.message })
+      } else {
+        this.json(res, 500, { error: error instanceof Error ? error.message : String(error) })
+      }
+    })
+    this.track(work)
+  }
+
+  private async route(
+    req: http.IncomingMessage,
+    url: URL,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const method = req.method || 'GET'
+    const parts = url.pathname.split('/').filter(Boolean)
+
+    // Signed storage URLs carry no API key
+    if (parts[0] === 'upload' && parts.length === 2 && method === 'PUT') {
+      return this.upload(this.getJob(parts[1]!), req, res)
+    }
+    if (parts[0] === 'results' && parts.length === 3 && method === 'GET') {
+      return this.download(this.getJob(parts[1]!), parts[2]!, res)
+    }
+
+    if (parts[0] !== 'v1') {
+      throw new HttpError(404, `No route for ${method} ${url.pathname}`)
+    }
+    this.authenticate(req)
+    // Job IDs are replaced with :id to match routes
+    const segments = parts
+      .slice(1)
+      .map((part, i) => (i === 1 && parts[1] === 'jobs' ? ':id' : part))
+    const route = `${method} /${segments.join('/')}`
+    const jobId = parts[2]
+
+    switch (route) {
+      case 'GET /credits':
+        return this.json(res, 200, {
+          total_credits: this.remainingCredits + this.usedCredits,
+          remaining_credits: this.remainingCredits,
+          used_credits: this.usedCredits,
+        })
+      case 'POST /jobs':
+        return this.createJob((await readJson(req)) as Record<string, string>, res)
+      case 'GET /jobs':
+        return this.listJobs(url.searchParams, res)
+      case 'POST /jobs/:id/start':
+        return this.startJob(this.getJob(jobId!), (await readJson(req)) as StartBody, res)
+      case 'GET /jobs/:id/status':
+        return this.json(res, 200, this.toStatus(this.getJob(jobId!)))
+      case 'POST /jobs/:id/cancel':
+        return this.cancelJob(this.getJob(jobId!), res)
+      case 'DELETE /jobs/:id':
+        return this.deleteJob(this.getJob(jobId!), res)
+      case 'GET /webhooks/deliveries': {
+        const job = this.getJob(url.searchParams.get('video_id') || '')
+        return this.json(res, 200, {
+          video_id: job.id,
+          total_deliveries: job.deliveries.length,
+          deliveries: job.deliveries,
+        })
+      }
+    }
+    throw new HttpError(404, `No route for ${method} ${url.pathname}`)
+  }
+
+  private authenticate(req: http.IncomingMessage): void {
+    const key = req.headers['x-api-key']
+    if (!key || (this.options.apiKey && key !== this.options.apiKey)) {
+      throw new HttpError(401, 'Invalid API key')
+    }
+  }
+
+  private getJob(jobId: string): MockJob {
+    const job = this.jobs.get(jobId)
+    if (!job) {
+      throw new HttpError(404, `Job not found: ${jobId}`)
+    }
+    return job
+  }
+
+  private createJob(body: Record<string, string>, res: http.ServerResponse): void {
+    if (!body.filename && !body.video_url) {
+      throw new HttpError(400, 'filename or video_url is required')
+    }
+
+    const id = `job_${++this.jobCount}`
+    const dir = path.join(this.dataDir, id)
+    fs.mkdirSync(dir, { recursive: true })
+    const filename = body.filename || path.basename(new URL(body.video_url!).pathname) || 'video'
+    const job: MockJob = {
+      id,
+      filename,
+      status: 'created',
+      createdAt: new Date(),
+      dir,
+      sourcePath: path.join(dir, `source${path.extname(filename) || '.mp4'}`),
+      videoUrl: body.video_url,
+      script: this.scripts.shift() || {},
+      deliveries: [],
+    }
+    this.jobs.set(id, job)
+
+    if (job.videoUrl) {
+      return this.json(res, 200, { id })
+    }
+    this.json(res, 200, {
+      id,
+      upload_url: `${this.url}/upload/${id}`,
+      expires_at: new Date(Date.now() + 3600_000).toISOString(),
+    })
+  }
+
+  /**
+   * Signed upload: a plain PUT, or ranged parts acknowledged with 308 Resume Incomplete
+   */
+  private async upload(
+    job: MockJob,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    if (job.status !== 'created') {
+      throw new HttpError(409, `Job ${job.id} is already ${job.status}`)
+    }
+
+    const contentRange = req.headers['content-range']
+    if (!contentRange) {
+      await pipeline(req, fs.createWriteStream(job.sourcePath))
+      job.status = 'uploaded'
+      return this.json(res, 200, {})
+    }
+
+    const stored = () => (fs.existsSync(job.sourcePath) ? fs.statSync(job.sourcePath).size : 0)
+    const part = /bytes (\d+)-(\d+)\/(\d+)/.exec(contentRange)
+    const query = /bytes \*\/(\d+)/.exec(contentRange)
+    if (!part && !query) {
+      throw new HttpError(400, `Malformed Content-Range: ${contentRange}`)
+    }
+
+    if (part && parseInt(part[1]!) === stored()) {
+      await pipeline(req, fs.createWriteStream(job.sourcePath, { flags: 'a' }))
+    } else {
+      // Parts that do not continue the stored bytes are discarded
+      req.resume()
+      await new Promise(resolve => req.on('end', resolve))
+    }
+
+    const size = stored()
+    if (size === parseInt(part ? part[3]! : query![1]!)) {
+      job.status = 'uploaded'
+      return this.json(res, 200, {})
+    }
+    res.writeHead(308, size > 0 ? { Range: `bytes=0-${size - 1}` } : {})
+    res.end()
+  }
+
+  private async startJob(job: MockJob, body: StartBody, res: http.ServerResponse): Promise<void> {
+    if (job.status === 'created' && job.videoUrl) {
+      await this.fetchSource(job)
+    } else if (job.status !== 'uploaded') {
+      throw new HttpError(
+        409,
+        job.status === 'created' ? 'Video has not been uploaded' : `Job is already ${job.status}`
+      )
+    }
+
+    job.lengthSeconds = await this.renderer.probe(job.sourcePath)
+    const cost = Math.ceil(job.lengthSeconds * (this.options.creditsPerSecond ?? 1))
+    if (cost > this.remainingCredits) {
+      throw new HttpError(402, 'Insufficient credits')
+    }
+    this.remainingCredits -= cost
+    this.usedCredits += cost
+
+    job.background = body.background || { type: 'transparent', transparent_format: 'webm_vp9' }
+    job.outputFormat = body.format
+    job.webhookUrl = body.webhook_url
+    job.status = 'processing'
+    this.json(res, 200, this.toStatus(job))
+    this.sendWebhook(job, 'started')
+
+    const seconds = job.script.processingSeconds ?? this.options.processingSeconds ?? 0
+    if (seconds !== Infinity) {
+      job.timer = setTimeout(() => this.track(this.finishJob(job.id)), seconds * 1000)
+    }
+  }
+
+  private async fetchSource(job: MockJob): Promise<void> {
+    const response = await this.transport.request({
+      method: 'GET',
+      url: job.videoUrl!,
+      responseType: 'stream',
+      timeout: 60000,
+    })
+    if (response.status < 200 || response.status >= 300) {
+      throw new HttpError(400, `Could not download video_url (status ${response.status})`)
+    }
+    await pipeline(response.data as AsyncIterable<Uint8Array>, fs.createWriteStream(job.sourcePath))
+  }
+
+  private listJobs(params: URLSearchParams, res: http.ServerResponse): void {
+    const status = params.get('status')
+    const since = params.get('since')
+    const limit = parseInt(params.get('limit') || '100')
+    const offset = parseInt(params.get('cursor') || '0')
+
+    const matching = [...this.jobs.values()]
+      .filter(job => !status || job.status === status)
+      .filter(job => !since || job.createdAt.getTime() >= Date.parse(since))
+      .reverse()
+    const page = matching.slice(offset, offset + limit)
+    this.json(res, 200, {
+      jobs: page.map(job => this.toStatus(job)),
+      next_cursor: offset + limit < matching.length ? String(offset + limit) : null,
+    })
+  }
+
+  private cancelJob(job: MockJob, res: http.ServerResponse): void {
+    if (['completed', 'failed', 'cancelled'].includes(job.status)) {
+      throw new HttpError(409, `Job is already ${job.status}`)
+    }
+    clearTimeout(job.timer)
+    job.status = 'cancelled'
+    this.json(res, 200, this.toStatus(job))
+  }
+
+  private deleteJob(job: MockJob, res: http.ServerResponse): void {
+    if (job.status === 'processing') {
+      throw new HttpError(409, 'Job is still processing; cancel it first')
+    }
+    this.jobs.delete(job.id)
+    fs.rmSync(job.dir, { recursive: true, force: true })
+    res.writeHead(204)
+    res.end()
+  }
+
+  private async download(job: MockJob, name: string, res: http.ServerResponse): Promise<void> {
+    if (!job.resultPath || path.basename(job.resultPath) !== name) {
+      throw new HttpError(404, `No result ${name} for job ${job.id}`)
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': fs.statSync(job.resultPath).size,
+    })
+    await pipeline(fs.createReadStream(job.resultPath), res)
+  }
+
+  private toStatus(job: MockJob): JobStatus {
+    return {
+      id: job.id,
+      status: job.status,
+      filename: job.filename,
+      created_at: job.createdAt.toISOString(),
+      length_seconds: job.lengthSeconds,
+      processed_video_url: job.resultPath
+        ? `${this.url}/results/${job.id}/${path.basename(job.resultPath)}`
+        : undefined,
+      message: job.message,
+      background: job.background,
+      output_format: job.outputFormat,
+    }
+  }
+
+  private sendWebhook(job: MockJob, status: WebhookPayload['status']): void {
+    if (!job.webhookUrl || job.script.webhooks === false) {
+      return
+    }
+
+    const payload: WebhookPayload = {
+      job_id: job.id,
+      user_id: 'mock_user',
+      status,
+      file_name: job.filename,
+      ...(job.message && status === 'failed' && { error_message: job.message }),
+      source: 'api',
+    }
+    const body = JSON.stringify(payload)
+    const delivery: MockWebhookDelivery = { url: job.webhookUrl, payload }
+    const scheduledAt = new Date().toISOString()
+
+    const send = this.transport
+      .request({
+        method: 'POST',
+        url: job.webhookUrl,
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            body,
+            this.options.webhookSecret || 'whsec_test'
+          ),
+        },
+        body,
+        timeout: 10000,
+      })
+      .then(
+        response => {
+          delivery.statusCode = response.status
+        },
+        error => {
+          delivery.error = error instanceof Error ? error.message : String(error)
+        }
+      )
+      .then(() => {
+        const delivered = delivery.statusCode !== undefined && delivery.statusCode < 300
+        this.webhookDeliveries.push(delivery)
+        job.deliveries.push({
+          event_type: `job.${status}`,
+          webhook_url: delivery.url,
+          attempt_number: 1,
+          delivery_status: delivered ? 'delivered' : 'failed',
+          http_status_code: delivery.statusCode ?? null,
+          error_message: delivery.error ?? null,
+          scheduled_at: scheduledAt,
+          delivered_at: delivered ? new Date().toISOString() : null,
+          payload,
+          created_at: scheduledAt,
+        })
+      })
+    this.track(send)
+  }
+
+  private takeFailure(method: string, pathname: string): MockFailure | undefined {
+    const failure = this.failures.find(
+      candidate =>
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        (typeof candidate.path === 'string'
+          ? candidate.path === pathname
+          : candidate.path.test(pathname))
+    )
+    if (failure && --failure.times! <= 0) {
+      this.failures.splice(this.failures.indexOf(failure), 1)
+    }
+    return failure
+  }
+
+  private json(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+    res.end(JSON.stringify(body))
+  }
+
+  private track(work: Promise<unknown>): void {
+    // Failures are answered or recorded where they happen; never leave them unhandled
+    const settled = work.then(
+      () => undefined,
+      () => undefined
+    )
+    this.pending.add(settled)
+    void settled.then(() => this.pending.delete(settled))
+  }
+}
+
+/**
+ * Body of a start request
+ */
+interface StartBody {
+  format?: string
+  background?: MockRenderJob['background']
+  webhook_url?: string
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString('utf-8')
+  if (!text) {
+    return {}
+  }
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON')
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Transport backed by axios (the default)
+ */
+
+import { Readable } from 'stream'
+import axios, { AxiosError, AxiosInstance, CreateAxiosDefaults } from 'axios'
+import { AbortError, TransportError } from '../errors'
+import { Transport, TransportBody, TransportRequest, TransportResponse } from './types'
+
+/**
+ * Sends requests with axios. Pass an axios instance or axios defaults to configure
+ * proxies, agents or TLS options.
+ *
+ * @example
+ * ```typescript
+ * const transport = new AxiosTransport({ httpsAgent: new https.Agent({ ca }) })
+ * const client = new VideoBGRemoverClient(apiKey, { transport })
+ * ```
+ */
+export class AxiosTransport implements Transport {
+  private readonly instance: AxiosInstance
+
+  constructor(instance?: AxiosInstance | CreateAxiosDefaults) {
+    this.instance = isAxiosInstance(instance) ? instance : axios.create(instance)
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const stream = request.responseType === 'stream'
+    try {
+      const response = await this.instance.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body === undefined ? undefined : toAxiosBody(request.body),
+        timeout: request.timeout ?? 0,
+        responseType: stream ? 'stream' : 'json',
+        // Redirect support buffers the request body in memory
+        maxRedirects: request.followRedirects === false ? 0 : 5,
+        maxBodyLength: Infinity,
+        maxContentLength: Infinity,
+        validateStatus: () => true,
+        signal: request.signal,
+      })
+
+      const ok = response.status >= 200 && response.status < 300
+      return {
+        status: response.status,
+        headers: Object.fromEntries(
+          Object.entries(response.headers).map(([name, value]) => [
+            name.toLowerCase(),
+            Array.isArray(value) ? value.join(', ') : String(value),
+          ])
+        ),
+        data: stream && !ok ? await readErrorBody(response.data as Readable) : response.data,
+      }
+    } catch (error) {
+      if (axios.isCancel(error) || request.signal?.aborted) {
+        throw new AbortError()
+      }
+      const axiosError = error as AxiosError
+      throw new TransportError(axiosError.message, axiosError.code)
+    }
+  }
+}
+
+function isAxiosInstance(value: unknown): value is AxiosInstance {
+  return typeof value === 'function' && 'request' in value
+}
+
+/**
+ * Convert web bodies into something the Node http adapter can send
+ */
+function toAxiosBody(body: TransportBody): string | Buffer | Readable {
+  if (typeof body === 'string' || Buffer.isBuffer(body) || body instanceof Readable) {
+    return body
+  }
+  if (body instanceof Uint8Array) {
+    return Buffer.from(body.buffer, body.byteOffset, body.byteLength)
+  }
+  // Blob is only a global from Node 18
+  if (typeof Blob !== 'undefined' && body instanceof Blob) {
+    return Readable.from(body.stream() as unknown as AsyncIterable<Uint8Array>)
+  }
+  return Readable.from(body as AsyncIterable<Uint8Array>)
+}
+
+/**
+ * Read the body of a failed stream request so it can be reported
+ */
+async function readErrorBody(body: Readable): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk))
+  }
+  const text = Buffer.concat(chunks).toString('utf-8')
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Default transport for clients created without one
+ *
+ * FetchTransport unless changed; the Node entry point switches it to AxiosTransport.
+ */
+
+import { FetchTransport } from './fetch'
+import type { Transport } from './types'
+
+let _createDefaultTransport: () => Transport = () => new FetchTransport()
+
+/**
+ * Create the transport used by clients without a `transport` option
+ */
+export function defaultTransport(): Transport {
+  return _createDefaultTransport()
+}
+
+/**
+ * Set how the default transport is created
+ */
+export function setDefaultTransport(create: () => Transport): void {
+  _createDefaultTransport = create
+}
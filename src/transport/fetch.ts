@@ -0,0 +1,161 @@
+/**
+ * Transport backed by the Fetch API (Node 18+, Deno, Bun, edge runtimes)
+ *
+ * Uses only web-standard globals, so it runs where Node built-ins are unavailable.
+ */
+
+import { AbortError, TransportError } from '../errors'
+import { onAbort, throwIfAborted } from '../abort'
+import { Transport, TransportBody, TransportRequest, TransportResponse } from './types'
+
+/**
+ * Options for the fetch transport
+ */
+export interface FetchTransportOptions {
+  /** fetch implementation to use, e.g. one bound to a proxy agent (default: global fetch) */
+  fetch?: typeof fetch
+}
+
+/**
+ * Network error codes of undici (Node's fetch) mapped to the codes used for retries
+ */
+const UNDICI_ERROR_CODES: Record<string, string> = {
+  UND_ERR_SOCKET: 'ECONNRESET',
+  UND_ERR_CLOSED: 'ECONNRESET',
+  UND_ERR_CONNECT_TIMEOUT: 'ETIMEDOUT',
+  UND_ERR_HEADERS_TIMEOUT: 'ETIMEDOUT',
+  UND_ERR_BODY_TIMEOUT: 'ETIMEDOUT',
+}
+
+/**
+ * Sends requests with fetch
+ *
+ * @example
+ * ```typescript
+ * const client = new VideoBGRemoverClient(apiKey, { transport: new FetchTransport() })
+ * ```
+ */
+export class FetchTransport implements Transport {
+  private readonly fetch: typeof fetch
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch ?? globalThis.fetch
+    if (!fetchImpl) {
+      throw new Error('fetch is not available in this runtime; pass options.fetch')
+    }
+    this.fetch = fetchImpl
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    throwIfAborted(request.signal)
+
+    // One controller for the caller's signal and the timeout; it stays linked to the
+    // signal while a streamed body is read
+    const controller = new AbortController()
+    const removeAbortListener = onAbort(request.signal, () => controller.abort())
+    let timedOut = false
+    const timer =
+      request.timeout !== undefined && request.timeout > 0
+        ? setTimeout(() => {
+            timedOut = true
+            controller.abort()
+          }, request.timeout)
+        : undefined
+
+    let streaming = false
+    try {
+      const body = request.body === undefined ? undefined : toFetchBody(request.body)
+      const init: RequestInit & { duplex?: 'half' } = {
+        method: request.method,
+        headers: request.headers,
+        body,
+        redirect: request.followRedirects === false ? 'manual' : 'follow',
+        signal: controller.signal,
+      }
+      if (body instanceof ReadableStream) {
+        // Required by fetch for streamed request bodies
+        init.duplex = 'half'
+      }
+      const response = await this.fetch(request.url, init)
+
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value
+      })
+
+      streaming = request.responseType === 'stream' && response.ok && response.body !== null
+      const data = streaming
+        ? (response.body as unknown as AsyncIterable<Uint8Array>)
+        : await readBody(response)
+      return { status: response.status, headers, data }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new AbortError()
+      }
+      if (timedOut) {
+        throw new TransportError(`Request timed out after ${request.timeout}ms`, 'ETIMEDOUT')
+      }
+      throw new TransportError(
+        `${(error as Error).message ?? error}${causeMessage(error)}`,
+        networkCode(error)
+      )
+    } finally {
+      clearTimeout(timer)
+      if (!streaming) {
+        removeAbortListener()
+      }
+    }
+  }
+}
+
+function toFetchBody(body: TransportBody): string | Uint8Array | Blob | ReadableStream<Uint8Array> {
+  if (
+    typeof body === 'string' ||
+    body instanceof Uint8Array ||
+    body instanceof Blob ||
+    body instanceof ReadableStream
+  ) {
+    return body
+  }
+  return iterableToStream(body)
+}
+
+/**
+ * Wrap an async iterable (e.g. a Node Readable) in a web ReadableStream
+ */
+function iterableToStream(iterable: AsyncIterable<Uint8Array>): ReadableStream<Uint8Array> {
+  const iterator = iterable[Symbol.asyncIterator]()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel(reason) {
+      await iterator.return?.(reason)
+    },
+  })
+}
+
+async function readBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function networkCode(error: unknown): string | undefined {
+  const code = ((error as { cause?: { code?: string } }).cause ?? (error as { code?: string }))
+    ?.code
+  return code && (UNDICI_ERROR_CODES[code] ?? code)
+}
+
+function causeMessage(error: unknown): string {
+  const cause = (error as { cause?: { message?: string } }).cause
+  return cause?.message ? ` (${cause.message})` : ''
+}
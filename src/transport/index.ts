@@ -0,0 +1,9 @@
+/**
+ * Transport module exports
+ */
+
+export { AxiosTransport } from './axios'
+export { FetchTransport } from './fetch'
+export { defaultTransport, setDefaultTransport } from './default'
+export type { FetchTransportOptions } from './fetch'
+export type { Transport, TransportBody, TransportRequest, TransportResponse } from './types'
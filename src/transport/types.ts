@@ -0,0 +1,56 @@
+/**
+ * HTTP transport used for API calls and signed-URL uploads and downloads
+ */
+
+/**
+ * Request body accepted by every transport
+ */
+export type TransportBody =
+  | string
+  | Uint8Array
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>
+
+/**
+ * A single HTTP request
+ */
+export interface TransportRequest {
+  method: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'DELETE'
+  /** Absolute URL including the query string */
+  url: string
+  headers?: Record<string, string>
+  body?: TransportBody
+  /** Milliseconds before the request fails with TransportError (no limit when unset) */
+  timeout?: number
+  /**
+   * 'json' (default) parses JSON bodies and falls back to text. 'stream' leaves a
+   * successful (2xx) body unread as an async iterable of chunks; other statuses are parsed.
+   */
+  responseType?: 'json' | 'stream'
+  /** Follow redirects (default: true) */
+  followRedirects?: boolean
+  signal?: AbortSignal
+}
+
+/**
+ * Response to a TransportRequest
+ */
+export interface TransportResponse {
+  status: number
+  /** Header names in lower case */
+  headers: Record<string, string>
+  /** Parsed body, or an AsyncIterable<Uint8Array> for successful stream requests */
+  data: unknown
+}
+
+/**
+ * Sends HTTP requests for the SDK.
+ *
+ * Every HTTP status resolves, including 4xx and 5xx. A transport only rejects when no
+ * response arrived: with TransportError (carrying a network code such as ECONNRESET
+ * or ETIMEDOUT, used for retry decisions) or with AbortError when the signal aborts.
+ */
+export interface Transport {
+  request(request: TransportRequest): Promise<TransportResponse>
+}
@@ -2,6 +2,8 @@
  * Core types, enums, and interfaces for VideoBGRemover SDK
  */
 
+import type { Transport } from './transport/types'
+
 // ============================================================================
 // ENUMS (from Python core/types.py)
 // ============================================================================
@@ -61,7 +63,56 @@ export enum SizeMode {
 /**
  * Status callback type (from Python core/types.py)
  */
-export type StatusCallback = (status: string) => void
+export type StatusCallback = (status: string, info?: StatusInfo) => void
+
+/**
+ * Extra details passed to the status callback while waiting
+ */
+export interface StatusInfo {
+  /** Estimated seconds until the job completes, when the polling strategy can tell */
+  estimatedTimeRemaining?: number
+  /** Seconds since waiting started */
+  elapsedSeconds?: number
+}
+
+/**
+ * Upload progress of the source video to the signed upload URL
+ */
+export interface UploadProgress {
+  bytesSent: number
+  totalBytes: number
+}
+
+/**
+ * Upload progress callback type
+ */
+export type UploadProgressCallback = (progress: UploadProgress) => void
+
+/**
+ * Download progress of the processed result
+ */
+export interface DownloadProgress {
+  bytesReceived: number
+  /** Declared size of the result, when the server sends a Content-Length */
+  totalBytes?: number
+}
+
+/**
+ * Download progress callback type
+ */
+export type DownloadProgressCallback = (progress: DownloadProgress) => void
+
+/**
+ * Options for resumable chunked uploads
+ */
+export interface ResumableUploadOptions {
+  /** Size of each uploaded part in bytes, a multiple of 256 KiB (default: 8 MiB) */
+  chunkSize?: number
+  /** File where upload progress is persisted (default: derived from the source path in MediaContext.tmp) */
+  stateFile?: string
+  /** Attempts per part before the upload fails (default: 5) */
+  maxAttempts?: number
+}
 
 /**
  * Layer configuration dictionary (matches Python layer dict)
@@ -129,17 +180,93 @@ export interface ClientOptions {
   timeout?: number
   /** Custom headers */
   headers?: Record<string, string>
-  /** Enable debug logging */
-  debug?: boolean
+  /**
+   * Log method, URL, status and timing of every API request, with the API key redacted.
+   * `true` logs to console.debug; a function receives each line instead.
+   */
+  debug?: boolean | ((message: string) => void)
+  /** Retry policy for transient failures (pass `false` to disable retries) */
+  retry?: RetryOptions | false
+  /** Client-side throttling to stay under the API rate limit */
+  rateLimit?: RateLimitOptions
+  /** Callbacks around every API request, e.g. for correlation IDs and metrics */
+  hooks?: ClientHooks
+  /**
+   * HTTP transport for API calls and signed-URL uploads and downloads
+   * (default: AxiosTransport). Configure proxies and TLS here.
+   */
+  transport?: Transport
+}
+
+/**
+ * An API request about to be sent; hooks may add or change headers
+ */
+export interface ClientRequest {
+  method: string
+  /** Full URL including the query string */
+  url: string
+  /** Extra headers for this request, on top of the client's own (the API key is not included) */
+  headers: Record<string, string>
+  body?: unknown
+  /** 1 for the first attempt, higher for retries */
+  attempt: number
+}
+
+/**
+ * Outcome of one API request attempt
+ */
+export interface ClientResponse {
+  request: ClientRequest
+  /** HTTP status, or undefined when no response arrived (network error, timeout) */
+  status?: number
+  headers: Record<string, string>
+  durationMs: number
+  /** Set when the attempt failed, whether or not it will be retried */
+  error?: unknown
 }
 
 /**
- * User credits information
+ * Before-request and after-response hooks, called once per attempt including retries.
+ * An error thrown by a hook rejects the client call as is.
  */
-export interface Credits {
-  totalCredits: number
-  remainingCredits: number
-  usedCredits: number
+export interface ClientHooks {
+  beforeRequest?: (request: ClientRequest) => void | Promise<void>
+  afterResponse?: (response: ClientResponse) => void | Promise<void>
+}
+
+/**
+ * Per-request options accepted by client methods
+ */
+export interface RequestOptions {
+  /** Cancels the request (and any pending retries) when aborted */
+  signal?: AbortSignal
+}
+
+/**
+ * Retry policy for transient API failures
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number
+  /** Initial backoff delay in milliseconds (default: 500) */
+  baseDelay?: number
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number
+  /** HTTP status codes that are retried (default: 408, 429, 502, 503, 504) */
+  retryStatusCodes?: number[]
+  /** Randomize backoff delays with full jitter (default: true) */
+  jitter?: boolean
+}
+
+/**
+ * Client-side request throttling options.
+ * The client always pauses all requests after a 429, whatever these options say.
+ */
+export interface RateLimitOptions {
+  /** Maximum number of requests started per second (default: unlimited) */
+  requestsPerSecond?: number
+  /** Maximum number of requests in flight at once (default: unlimited) */
+  maxConcurrent?: number
 }
 
 // Re-export from dedicated module
@@ -194,12 +321,37 @@ export type BackgroundSource = string
  * Processing status information
  */
 export interface ProcessingStatus {
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
+  /** Estimated completion between 0 and 1 (0 while no estimate is available) */
   progress: number
   message: string
   estimatedTimeRemaining?: number
 }
 
+/**
+ * Structured progress of a background removal, discriminated by `type`
+ */
+export type ProgressEvent =
+  /** Transparent output format picked for the job */
+  | { type: 'format_selected'; format: string }
+  /** Job created on the API */
+  | { type: 'job_created'; jobId: string }
+  /** Source video upload progress */
+  | ({ type: 'upload' } & UploadProgress)
+  /** Processing requested */
+  | { type: 'job_started'; jobId: string }
+  /** Status check while the job is processing */
+  | ({ type: 'processing'; jobId: string; elapsedSeconds: number } & ProcessingStatus)
+  /** Result download progress */
+  | ({ type: 'download'; jobId: string } & DownloadProgress)
+  /** Result downloaded and ready to compose */
+  | { type: 'ready'; jobId: string; foreground: import('./media/foreground').Foreground }
+
+/**
+ * Progress callback type
+ */
+export type ProgressCallback = (event: ProgressEvent) => void
+
 /**
  * Webhook payload structure
  */
@@ -0,0 +1,187 @@
+/**
+ * Webhook signature verification and typed event parsing
+ */
+
+import * as crypto from 'crypto'
+import { WebhookPayload } from '../types'
+import { ValidationError, WebhookSignatureError } from '../errors'
+
+/**
+ * Header carrying the webhook signature, formatted as `t=<unix seconds>,v1=<hex digest>`.
+ * The digest is an HMAC-SHA256 of `<t>.<raw body>` keyed with the webhook secret.
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-videobgremover-signature'
+
+/**
+ * Default tolerance between the signature timestamp and the local clock, in seconds
+ */
+export const DEFAULT_WEBHOOK_TOLERANCE = 300
+
+/**
+ * Webhook event types, one per job status transition
+ */
+export type WebhookEventType = 'job.started' | 'job.completed' | 'job.failed'
+
+/**
+ * Fields shared by all webhook events
+ */
+interface BaseWebhookEvent {
+  jobId: string
+  userId: string
+  fileName?: string
+  source?: 'api' | 'web'
+  /** Raw payload as sent by the API */
+  payload: WebhookPayload
+}
+
+/**
+ * Job processing started
+ */
+export interface JobStartedEvent extends BaseWebhookEvent {
+  type: 'job.started'
+}
+
+/**
+ * Job finished successfully; fetch its status for the result URLs
+ */
+export interface JobCompletedEvent extends BaseWebhookEvent {
+  type: 'job.completed'
+}
+
+/**
+ * Job processing failed
+ */
+export interface JobFailedEvent extends BaseWebhookEvent {
+  type: 'job.failed'
+  errorMessage?: string
+}
+
+/**
+ * Webhook event (discriminated by `type`)
+ */
+export type WebhookEvent = JobStartedEvent | JobCompletedEvent | JobFailedEvent
+
+/**
+ * Options for signature verification
+ */
+export interface WebhookVerifyOptions {
+  /** Maximum age of the signature timestamp in seconds (default: 300) */
+  tolerance?: number
+  /** Current time in milliseconds, for testing */
+  now?: number
+}
+
+/**
+ * Compute the signature header value for a payload (useful for tests and local tooling)
+ */
+export function signWebhookPayload(
+  rawBody: string | Buffer,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeDigest(rawBody, secret, timestamp)}`
+}
+
+/**
+ * Verify the signature of a raw webhook body. Throws WebhookSignatureError when the
+ * signature is missing, does not match, or is outside the timestamp tolerance.
+ */
+export function verifyWebhookSignature(
+  rawBody: string | Buffer,
+  signatureHeader: string | string[] | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): void {
+  const { tolerance = DEFAULT_WEBHOOK_TOLERANCE, now = Date.now() } = options
+  const header = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader
+  if (!header) {
+    throw new WebhookSignatureError('Missing webhook signature header')
+  }
+
+  let timestamp: number | undefined
+  const signatures: string[] = []
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2)
+    if (key === 't' && value) {
+      timestamp = parseInt(value)
+    } else if (key === 'v1' && value) {
+      signatures.push(value)
+    }
+  }
+
+  if (timestamp === undefined || isNaN(timestamp) || signatures.length === 0) {
+    throw new WebhookSignatureError('Malformed webhook signature header')
+  }
+
+  // Reject old (replayed) and far-future deliveries
+  if (Math.abs(now / 1000 - timestamp) > tolerance) {
+    throw new WebhookSignatureError('Webhook signature timestamp is outside the tolerance')
+  }
+
+  const expected = Buffer.from(computeDigest(rawBody, secret, timestamp), 'hex')
+  const matches = signatures.some(signature => {
+    const received = Buffer.from(signature, 'hex')
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected)
+  })
+
+  if (!matches) {
+    throw new WebhookSignatureError()
+  }
+}
+
+/**
+ * Parse a raw webhook body into a typed event. Throws ValidationError on malformed payloads.
+ *
+ * This does not check the signature; use constructWebhookEvent for untrusted requests.
+ */
+export function parseWebhookEvent(rawBody: string | Buffer): WebhookEvent {
+  let payload: WebhookPayload
+  try {
+    payload = JSON.parse(rawBody.toString())
+  } catch {
+    throw new ValidationError('Webhook body is not valid JSON', 'body')
+  }
+
+  if (!payload || typeof payload !== 'object') {
+    throw new ValidationError('Webhook body must be a JSON object', 'body')
+  }
+  if (typeof payload.job_id !== 'string' || !payload.job_id) {
+    throw new ValidationError('Webhook payload is missing job_id', 'job_id')
+  }
+
+  const base = {
+    jobId: payload.job_id,
+    userId: payload.user_id,
+    fileName: payload.file_name,
+    source: payload.source,
+    payload,
+  }
+
+  switch (payload.status) {
+    case 'started':
+      return { ...base, type: 'job.started' }
+    case 'completed':
+      return { ...base, type: 'job.completed' }
+    case 'failed':
+      return { ...base, type: 'job.failed', errorMessage: payload.error_message }
+    default:
+      throw new ValidationError(`Unknown webhook status: ${payload.status}`, 'status')
+  }
+}
+
+/**
+ * Verify the signature of a webhook request and parse it into a typed event
+ */
+export function constructWebhookEvent(
+  rawBody: string | Buffer,
+  signatureHeader: string | string[] | undefined,
+  secret: string,
+  options: WebhookVerifyOptions = {}
+): WebhookEvent {
+  verifyWebhookSignature(rawBody, signatureHeader, secret, options)
+  return parseWebhookEvent(rawBody)
+}
+
+function computeDigest(rawBody: string | Buffer, secret: string, timestamp: number): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.`).update(rawBody).digest('hex')
+}
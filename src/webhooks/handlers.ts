@@ -0,0 +1,262 @@
+/**
+ * Ready-made webhook request handlers for Node http, Express and Fastify
+ */
+
+import { IncomingMessage, ServerResponse } from 'http'
+import { ValidationError, WebhookSignatureError } from '../errors'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  constructWebhookEvent,
+  JobCompletedEvent,
+  JobFailedEvent,
+  JobStartedEvent,
+  WebhookEvent,
+} from './events'
+
+/**
+ * Callbacks and verification settings shared by all webhook handlers
+ */
+export interface WebhookHandlerOptions {
+  /** Webhook signing secret */
+  secret: string
+  /** Maximum age of the signature timestamp in seconds (default: 300) */
+  tolerance?: number
+  /** Maximum accepted body size in bytes (default: 1 MiB) */
+  maxBodySize?: number
+  onStarted?: (event: JobStartedEvent) => void | Promise<void>
+  onCompleted?: (event: JobCompletedEvent) => void | Promise<void>
+  onFailed?: (event: JobFailedEvent) => void | Promise<void>
+  /** Called for every verified event, before the type-specific callback */
+  onEvent?: (event: WebhookEvent) => void | Promise<void>
+}
+
+/**
+ * HTTP response a webhook handler answers with
+ */
+export interface WebhookResponse {
+  status: number
+  body: { received: true } | { error: string }
+}
+
+/**
+ * Minimal Express request shape (express.raw() or a rawBody property keeps the body verifiable)
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  body?: unknown
+  rawBody?: Buffer | string
+}
+
+/**
+ * Minimal Express response shape
+ */
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse
+  json(body: unknown): unknown
+}
+
+/**
+ * Minimal Fastify request shape (register a buffer content type parser or fastify-raw-body)
+ */
+export interface FastifyLikeRequest {
+  headers: Record<string, string | string[] | undefined>
+  body?: unknown
+  rawBody?: Buffer | string
+}
+
+/**
+ * Minimal Fastify reply shape
+ */
+export interface FastifyLikeReply {
+  code(statusCode: number): FastifyLikeReply
+  send(payload: unknown): unknown
+}
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024
+
+/**
+ * Error raised while buffering a request body larger than maxBodySize
+ */
+class BodyTooLargeError extends Error {}
+
+/**
+ * Verify a raw webhook body, dispatch it to the callbacks and build the response.
+ *
+ * Answers 400 for bad signatures or payloads and 500 when a callback throws,
+ * so the API retries the delivery later.
+ */
+export async function handleWebhookRequest(
+  rawBody: string | Buffer,
+  signatureHeader: string | string[] | undefined,
+  options: WebhookHandlerOptions
+): Promise<WebhookResponse> {
+  let event: WebhookEvent
+  try {
+    event = constructWebhookEvent(rawBody, signatureHeader, options.secret, {
+      tolerance: options.tolerance,
+    })
+  } catch (error) {
+    if (error instanceof WebhookSignatureError || error instanceof ValidationError) {
+      return { status: 400, body: { error: error.message } }
+    }
+    throw error
+  }
+
+  try {
+    await options.onEvent?.(event)
+    if (event.type === 'job.started') {
+      await options.onStarted?.(event)
+    } else if (event.type === 'job.completed') {
+      await options.onCompleted?.(event)
+    } else {
+      await options.onFailed?.(event)
+    }
+  } catch (error) {
+    return { status: 500, body: { error: `Webhook callback failed: ${error}` } }
+  }
+
+  return { status: 200, body: { received: true } }
+}
+
+/**
+ * Create a handler for plain Node `http` servers
+ *
+ * @example
+ * ```typescript
+ * http.createServer(createWebhookHandler({ secret, onCompleted: e => console.log(e.jobId) }))
+ * ```
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const response = await respondTo(req, options, () =>
+      readBody(req, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE)
+    )
+    res.writeHead(response.status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(response.body))
+  }
+}
+
+/**
+ * Create Express-style `(req, res)` middleware.
+ *
+ * Mount it with `express.raw({ type: 'application/json' })` (or keep a `rawBody` property);
+ * a body already parsed into an object can no longer be verified.
+ */
+export function createExpressWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: ExpressLikeRequest, res: ExpressLikeResponse) => Promise<void> {
+  return async (req, res) => {
+    const response = await respondTo(req, options, async () => {
+      const body = rawBodyOf(req)
+      if (body !== undefined) {
+        return body
+      }
+      if (req.body !== undefined) {
+        throw new ValidationError(
+          'Webhook body was already parsed; mount the handler with express.raw()',
+          'body'
+        )
+      }
+      return readBody(req, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE)
+    })
+    res.status(response.status).json(response.body)
+  }
+}
+
+/**
+ * Create a Fastify route handler.
+ *
+ * Fastify parses JSON by default; register a buffer content type parser for the route
+ * (`parseAs: 'buffer'`) or use fastify-raw-body so the signature can be verified.
+ */
+export function createFastifyWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: FastifyLikeRequest, reply: FastifyLikeReply) => Promise<void> {
+  return async (request, reply) => {
+    const response = await respondTo(request, options, async () => {
+      const body = rawBodyOf(request)
+      if (body === undefined) {
+        throw new ValidationError(
+          'Raw webhook body is unavailable; register a buffer content type parser',
+          'body'
+        )
+      }
+      return body
+    })
+    await reply.code(response.status).send(response.body)
+  }
+}
+
+/**
+ * Shared flow for the framework adapters: method check, body extraction, dispatch.
+ * Never rejects, so every failure is answered.
+ */
+async function respondTo(
+  req: { method?: string; headers: Record<string, string | string[] | undefined> },
+  options: WebhookHandlerOptions,
+  getBody: () => Promise<string | Buffer>
+): Promise<WebhookResponse> {
+  if (req.method && req.method !== 'POST') {
+    return { status: 405, body: { error: 'Method not allowed' } }
+  }
+
+  let rawBody: string | Buffer
+  try {
+    rawBody = await getBody()
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      return { status: 413, body: { error: 'Webhook body too large' } }
+    }
+    if (error instanceof ValidationError) {
+      return { status: 500, body: { error: error.message } }
+    }
+    return { status: 400, body: { error: `Failed to read webhook body: ${error}` } }
+  }
+
+  try {
+    return await handleWebhookRequest(rawBody, req.headers[WEBHOOK_SIGNATURE_HEADER], options)
+  } catch (error) {
+    // E.g. a missing secret; plain http servers would leave a rejection unhandled
+    return { status: 500, body: { error: `Failed to handle webhook: ${error}` } }
+  }
+}
+
+/**
+ * Raw body left by body parsers, if any
+ */
+function rawBodyOf(req: {
+  body?: unknown
+  rawBody?: Buffer | string
+}): string | Buffer | undefined {
+  if (req.rawBody !== undefined) {
+    return req.rawBody
+  }
+  if (Buffer.isBuffer(req.body) || typeof req.body === 'string') {
+    return req.body
+  }
+  return undefined
+}
+
+/**
+ * Buffer a request stream, refusing bodies larger than maxBytes
+ */
+function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBytes) {
+        req.removeAllListeners('data')
+        req.resume()
+        reject(new BodyTooLargeError())
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
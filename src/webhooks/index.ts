@@ -0,0 +1,36 @@
+/**
+ * Webhook module exports
+ */
+
+export {
+  WEBHOOK_SIGNATURE_HEADER,
+  DEFAULT_WEBHOOK_TOLERANCE,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  parseWebhookEvent,
+  constructWebhookEvent,
+} from './events'
+export type {
+  WebhookEventType,
+  WebhookEvent,
+  JobStartedEvent,
+  JobCompletedEvent,
+  JobFailedEvent,
+  WebhookVerifyOptions,
+} from './events'
+export {
+  handleWebhookRequest,
+  createWebhookHandler,
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+} from './handlers'
+export type {
+  WebhookHandlerOptions,
+  WebhookResponse,
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  FastifyLikeRequest,
+  FastifyLikeReply,
+} from './handlers'
+export { WebhookEventHub, WebhookListener } from './listener'
+export type { JobEventSource, WebhookListenerOptions } from './listener'
@@ -0,0 +1,162 @@
+/**
+ * Webhook event sources for waiting on job completion without polling
+ */
+
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import { WebhookEvent } from './events'
+import { createWebhookHandler } from './handlers'
+
+/**
+ * Source of job webhook events that client.wait() can listen to
+ */
+export interface JobEventSource {
+  /** Webhook URL to register when starting jobs, if the source receives deliveries itself */
+  readonly webhookUrl?: string
+  /** Listen for events of one job. Returns a function that stops listening. */
+  subscribe(jobId: string, listener: (event: WebhookEvent) => void): () => void
+}
+
+const MAX_REMEMBERED_JOBS = 1000
+
+/**
+ * In-memory event source fed from your own webhook endpoint
+ *
+ * @example
+ * ```typescript
+ * const hub = new WebhookEventHub()
+ * app.post('/webhooks', express.raw({ type: 'application/json' }),
+ *   createExpressWebhookHandler({ secret, onEvent: hub.dispatch }))
+ * await video.removeBackground({ client, webhookUrl, events: hub })
+ * ```
+ */
+export class WebhookEventHub implements JobEventSource {
+  private readonly listeners = new Map<string, Set<(event: WebhookEvent) => void>>()
+  // Last event per job, so a delivery that beats subscribe() is not lost
+  private readonly lastEvents = new Map<string, WebhookEvent>()
+
+  /**
+   * Publish an event to the listeners of its job (bound, safe to pass as a callback)
+   */
+  dispatch = (event: WebhookEvent): void => {
+    this.lastEvents.delete(event.jobId)
+    this.lastEvents.set(event.jobId, event)
+    if (this.lastEvents.size > MAX_REMEMBERED_JOBS) {
+      const oldest = this.lastEvents.keys().next().value
+      if (oldest !== undefined) {
+        this.lastEvents.delete(oldest)
+      }
+    }
+
+    this.listeners.get(event.jobId)?.forEach(listener => listener(event))
+  }
+
+  subscribe(jobId: string, listener: (event: WebhookEvent) => void): () => void {
+    let jobListeners = this.listeners.get(jobId)
+    if (!jobListeners) {
+      jobListeners = new Set()
+      this.listeners.set(jobId, jobListeners)
+    }
+    jobListeners.add(listener)
+
+    const last = this.lastEvents.get(jobId)
+    if (last) {
+      queueMicrotask(() => listener(last))
+    }
+
+    return () => {
+      jobListeners!.delete(listener)
+      if (jobListeners!.size === 0) {
+        this.listeners.delete(jobId)
+      }
+    }
+  }
+}
+
+/**
+ * Options for the embedded webhook listener
+ */
+export interface WebhookListenerOptions {
+  /** Webhook signing secret */
+  secret: string
+  /** Port to listen on (default: random free port) */
+  port?: number
+  /** Interface to bind (default: all interfaces) */
+  host?: string
+  /**
+   * Public URL that routes to this listener, registered as the job webhook URL.
+   * Without it no URL is registered, as the API cannot reach a local address.
+   */
+  publicUrl?: string
+  /** Maximum age of the signature timestamp in seconds (default: 300) */
+  tolerance?: number
+}
+
+/**
+ * Embedded HTTP server that receives webhook deliveries and wakes up client.wait()
+ *
+ * The API must be able to reach the listener: pass publicUrl when it sits behind
+ * a tunnel, load balancer or ingress. Without publicUrl, removeBackground() polls
+ * at its normal interval unless a webhookUrl routing here is passed to it.
+ */
+export class WebhookListener extends WebhookEventHub {
+  private constructor(
+    private readonly server: http.Server,
+    private readonly publicUrl?: string
+  ) {
+    super()
+  }
+
+  /**
+   * Start listening for webhook deliveries
+   */
+  static async start(options: WebhookListenerOptions): Promise<WebhookListener> {
+    const server = http.createServer()
+    const listener = new WebhookListener(server, options.publicUrl)
+    const handler = createWebhookHandler({
+      secret: options.secret,
+      tolerance: options.tolerance,
+      onEvent: listener.dispatch,
+    })
+
+    server.on('request', (req, res) => {
+      handler(req, res).catch(() => {
+        res.writeHead(500)
+        res.end()
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(options.port ?? 0, options.host, () => {
+        server.off('error', reject)
+        resolve()
+      })
+    })
+
+    return listener
+  }
+
+  /**
+   * URL registered as the job webhook URL, if publicUrl was given
+   */
+  get webhookUrl(): string | undefined {
+    return this.publicUrl
+  }
+
+  /**
+   * Port the listener is bound to
+   */
+  get port(): number {
+    return (this.server.address() as AddressInfo).port
+  }
+
+  /**
+   * Stop the embedded server
+   */
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close(error => (error ? reject(error) : resolve()))
+    )
+  }
+}
@@ -1345,29 +1345,29 @@ describe('Real Integration Tests', () => {
     const deliveries = await client.webhookDeliveries(jobId)
 
     console.log(`📊 Webhook Delivery Summary:`)
-    console.log(`  - Video ID: ${deliveries.video_id}`)
-    console.log(`  - Total deliveries: ${deliveries.total_deliveries}`)
+    console.log(`  - Video ID: ${deliveries.videoId}`)
+    console.log(`  - Total deliveries: ${deliveries.totalDeliveries}`)
 
     // Verify deliveries
-    expect(deliveries.video_id).toBe(jobId)
-    expect(deliveries.total_deliveries).toBeGreaterThanOrEqual(2) // At least job.started and job.completed
+    expect(deliveries.videoId).toBe(jobId)
+    expect(deliveries.totalDeliveries).toBeGreaterThanOrEqual(2) // At least job.started and job.completed
 
     // Check individual deliveries
     for (const delivery of deliveries.deliveries) {
-      console.log(`\n  🔔 Webhook: ${delivery.event_type}`)
-      console.log(`     - Attempt: ${delivery.attempt_number}`)
-      console.log(`     - Status: ${delivery.delivery_status}`)
-      console.log(`     - HTTP Code: ${delivery.http_status_code}`)
-      console.log(`     - Scheduled: ${delivery.scheduled_at}`)
-      console.log(`     - Delivered: ${delivery.delivered_at}`)
+      console.log(`\n  🔔 Webhook: ${delivery.eventType}`)
+      console.log(`     - Attempt: ${delivery.attemptNumber}`)
+      console.log(`     - Status: ${delivery.deliveryStatus}`)
+      console.log(`     - HTTP Code: ${delivery.httpStatusCode}`)
+      console.log(`     - Scheduled: ${delivery.scheduledAt.toISOString()}`)
+      console.log(`     - Delivered: ${delivery.deliveredAt?.toISOString()}`)
 
-      expect(delivery.webhook_url).toBe(webhookUrl)
-      expect(delivery.delivery_status).toBe('delivered')
-      expect(delivery.http_status_code).toBe(200)
+      expect(delivery.webhookUrl).toBe(webhookUrl)
+      expect(delivery.deliveryStatus).toBe('delivered')
+      expect(delivery.httpStatusCode).toBe(200)
     }
 
     // Verify we got both job.started and job.completed
-    const eventTypes = deliveries.deliveries.map(d => d.event_type)
+    const eventTypes = deliveries.deliveries.map(d => d.eventType)
     expect(eventTypes).toContain('job.started')
     expect(eventTypes).toContain('job.completed')
 
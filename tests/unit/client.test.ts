@@ -3,6 +3,8 @@
  * (Port of Python test_client.py)
  */
 
+import * as http from 'http'
+import { AddressInfo } from 'net'
 import axios from 'axios'
 import MockAdapter from 'axios-mock-adapter'
 import {
@@ -10,7 +12,25 @@ import {
   ApiError,
   InsufficientCreditsError,
   JobNotFoundError,
+  JobCancelledError,
+  JobStateError,
+  RateLimitError,
+  AbortError,
+  WebhookEventHub,
+  ExponentialPolling,
+  LengthAwarePolling,
+  Job,
+  ResponseValidationError,
+  ClientResponse,
 } from '../../src/index'
+import { RetryPolicy } from '../../src/retry'
+
+const API = 'https://api.videobgremover.com'
+
+/**
+ * Query parameters of a request seen by the mock adapter
+ */
+const queryOf = (config: { url?: string }) => Object.fromEntries(new URL(config.url!).searchParams)
 
 describe('VideoBGRemoverClient', () => {
   let mockAxios: MockAdapter
@@ -38,7 +58,7 @@ describe('VideoBGRemoverClient', () => {
   test('should get credits successfully', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/credits').reply(200, {
+    mockAxios.onGet(`${API}/v1/credits`).reply(200, {
       total_credits: 100.0,
       remaining_credits: 50.0,
       used_credits: 50.0,
@@ -54,7 +74,7 @@ describe('VideoBGRemoverClient', () => {
   test('should create job file successfully', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onPost('/v1/jobs').reply(200, {
+    mockAxios.onPost(`${API}/v1/jobs`).reply(200, {
       id: 'job_123',
       upload_url: 'https://storage.googleapis.com/signed-url',
       expires_at: '2024-01-01T12:00:00Z',
@@ -66,13 +86,14 @@ describe('VideoBGRemoverClient', () => {
     })
 
     expect(response.id).toBe('job_123')
-    expect(response.upload_url).toContain('storage.googleapis.com')
+    expect(response.uploadUrl).toContain('storage.googleapis.com')
+    expect(response.expiresAt).toEqual(new Date('2024-01-01T12:00:00Z'))
   })
 
   test('should create job URL successfully', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onPost('/v1/jobs').reply(200, {
+    mockAxios.onPost(`${API}/v1/jobs`).reply(200, {
       id: 'job_456',
     })
 
@@ -86,7 +107,7 @@ describe('VideoBGRemoverClient', () => {
   test('should get job status', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/jobs/job_123/status').reply(200, {
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
       id: 'job_123',
       status: 'completed',
       filename: 'test.mp4',
@@ -98,13 +119,14 @@ describe('VideoBGRemoverClient', () => {
 
     expect(status.id).toBe('job_123')
     expect(status.status).toBe('completed')
-    expect(status.processed_video_url).toBe('https://example.com/result.webm')
+    expect(status.processedVideoUrl).toBe('https://example.com/result.webm')
+    expect(status.createdAt).toEqual(new Date('2024-01-01T10:00:00Z'))
   })
 
   test('should start job successfully', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onPost('/v1/jobs/job_123/start').reply(200, {
+    mockAxios.onPost(`${API}/v1/jobs/job_123/start`).reply(200, {
       id: 'job_123',
       status: 'processing',
     })
@@ -124,7 +146,7 @@ describe('VideoBGRemoverClient', () => {
     const client = new VideoBGRemoverClient('test_key')
 
     // First call: processing
-    mockAxios.onGet('/v1/jobs/job_123/status').replyOnce(200, {
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).replyOnce(200, {
       id: 'job_123',
       status: 'processing',
       filename: 'test.mp4',
@@ -132,7 +154,7 @@ describe('VideoBGRemoverClient', () => {
     })
 
     // Second call: completed
-    mockAxios.onGet('/v1/jobs/job_123/status').replyOnce(200, {
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).replyOnce(200, {
       id: 'job_123',
       status: 'completed',
       filename: 'test.mp4',
@@ -148,7 +170,7 @@ describe('VideoBGRemoverClient', () => {
   test('should handle 401 authentication error', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/credits').reply(401, {
+    mockAxios.onGet(`${API}/v1/credits`).reply(401, {
       error: 'Invalid API key',
     })
 
@@ -159,7 +181,7 @@ describe('VideoBGRemoverClient', () => {
   test('should handle 402 insufficient credits error', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onPost('/v1/jobs/job_123/start').reply(402, {
+    mockAxios.onPost(`${API}/v1/jobs/job_123/start`).reply(402, {
       error: 'Insufficient credits',
     })
 
@@ -169,17 +191,180 @@ describe('VideoBGRemoverClient', () => {
   test('should handle 404 job not found error', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/jobs/nonexistent/status').reply(404, {
+    mockAxios.onGet(`${API}/v1/jobs/nonexistent/status`).reply(404, {
       error: 'Job not found',
     })
 
     await expect(client.status('nonexistent')).rejects.toThrow(JobNotFoundError)
   })
 
+  test('should cancel a job', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onPost(`${API}/v1/jobs/job_123/cancel`).reply(200, {
+      id: 'job_123',
+      status: 'cancelled',
+      filename: 'test.mp4',
+      created_at: '2024-01-01T10:00:00Z',
+    })
+
+    const response = await client.cancelJob('job_123')
+    expect(response.status).toBe('cancelled')
+  })
+
+  test('should delete a job', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onDelete(`${API}/v1/jobs/job_123`).reply(204)
+
+    await expect(client.deleteJob('job_123')).resolves.toBeUndefined()
+    expect(mockAxios.history.delete).toHaveLength(1)
+  })
+
+  test('should handle 409 invalid job state error', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onPost(`${API}/v1/jobs/job_123/cancel`).reply(409, { error: 'Job already completed' })
+    mockAxios.onDelete(`${API}/v1/jobs/missing`).reply(404, { error: 'Job not found' })
+
+    await expect(client.cancelJob('job_123')).rejects.toThrow(JobStateError)
+    await expect(client.cancelJob('job_123')).rejects.toThrow('Job already completed')
+    await expect(client.deleteJob('missing')).rejects.toThrow(JobNotFoundError)
+  })
+
+  test('should list jobs across pages as camelCase objects', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+    const job = (id: string) => ({
+      id,
+      status: 'processing',
+      filename: `${id}.mp4`,
+      created_at: '2024-01-01T10:00:00Z',
+      length_seconds: 12,
+    })
+
+    const pages: Record<string, unknown> = {
+      first: { jobs: [job('job_1'), job('job_2')], next_cursor: 'page_2' },
+      page_2: { jobs: [job('job_3')], next_cursor: null },
+    }
+    mockAxios.onGet(/\/v1\/jobs\?/).reply(config => [200, pages[queryOf(config).cursor ?? 'first']])
+
+    const jobs: Job[] = []
+    for await (const listed of client.listJobs({
+      status: 'processing',
+      since: new Date('2024-01-01T00:00:00Z'),
+      pageSize: 2,
+    })) {
+      jobs.push(listed)
+    }
+
+    expect(jobs.map(listed => listed.id)).toEqual(['job_1', 'job_2', 'job_3'])
+    expect(queryOf(mockAxios.history.get![0]!)).toEqual({
+      status: 'processing',
+      since: '2024-01-01T00:00:00.000Z',
+      limit: '2',
+    })
+    expect(jobs[0]).toEqual({
+      id: 'job_1',
+      status: 'processing',
+      filename: 'job_1.mp4',
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+      lengthSeconds: 12,
+    })
+  })
+
+  test('should stop listing jobs at the limit', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+    const jobs = ['job_1', 'job_2', 'job_3'].map(id => ({
+      id,
+      status: 'completed',
+      filename: 'test.mp4',
+      created_at: '2024-01-01T10:00:00Z',
+    }))
+
+    mockAxios.onGet(/\/v1\/jobs\?/).reply(200, { jobs, next_cursor: 'more' })
+
+    const ids: string[] = []
+    for await (const job of client.listJobs({ limit: 2 })) {
+      ids.push(job.id)
+    }
+
+    expect(ids).toEqual(['job_1', 'job_2'])
+    expect(mockAxios.history.get).toHaveLength(1)
+    expect(queryOf(mockAxios.history.get![0]!)).toEqual({ limit: '2' })
+  })
+
+  test('should stop waiting when the job is cancelled', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
+      id: 'job_123',
+      status: 'cancelled',
+      filename: 'test.mp4',
+      created_at: '2024-01-01T10:00:00Z',
+    })
+
+    await expect(client.wait('job_123', { pollSeconds: 0.01 })).rejects.toThrow(JobCancelledError)
+  })
+
+  test('should reject responses that do not match the model', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
+      id: 'job_123',
+      status: 42,
+      filename: 'test.mp4',
+      created_at: 'yesterday',
+    })
+
+    const error = await client.status('job_123').catch(e => e)
+
+    expect(error).toBeInstanceOf(ResponseValidationError)
+    expect(error.endpoint).toBe('GET /v1/jobs/job_123/status')
+    expect(error.issues).toEqual([
+      expect.stringContaining('status:'),
+      'created_at: Invalid timestamp',
+    ])
+    expect(mockAxios.history.get).toHaveLength(1)
+  })
+
+  test('should keep waiting through job states added to the API later', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+    const job = { id: 'job_123', filename: 'test.mp4', created_at: '2024-01-01T10:00:00Z' }
+
+    mockAxios
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'queued_for_gpu' })
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'completed' })
+
+    const result = await client.wait('job_123', { pollSeconds: 0.01 })
+
+    expect(result.status).toBe('completed')
+    expect(mockAxios.history.get).toHaveLength(2)
+  })
+
+  test('should accept null for optional fields', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
+      id: 'job_123',
+      status: 'processing',
+      filename: 'test.mp4',
+      created_at: '2024-01-01T10:00:00Z',
+      length_seconds: null,
+      processed_video_url: null,
+    })
+
+    const status = await client.status('job_123')
+
+    expect(status.lengthSeconds).toBeUndefined()
+    expect(status.processedVideoUrl).toBeUndefined()
+  })
+
   test('should handle wait timeout', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/jobs/job_123/status').reply(200, {
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
       id: 'job_123',
       status: 'processing',
       filename: 'test.mp4',
@@ -191,10 +376,89 @@ describe('VideoBGRemoverClient', () => {
     )
   })
 
+  test('should stop waiting when the signal aborts', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
+      id: 'job_123',
+      status: 'processing',
+      filename: 'test.mp4',
+      created_at: '2024-01-01T10:00:00Z',
+    })
+
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 150)
+
+    await expect(
+      client.wait('job_123', { pollSeconds: 0.1, signal: controller.signal })
+    ).rejects.toThrow(AbortError)
+    expect(mockAxios.history.get!.length).toBeLessThanOrEqual(2)
+  })
+
+  test('should finish waiting as soon as a webhook event arrives', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+    const hub = new WebhookEventHub()
+    const job = { id: 'job_123', filename: 'test.mp4', created_at: '2024-01-01T10:00:00Z' }
+
+    mockAxios
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'processing' })
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'completed', processed_video_url: 'https://x/out.webm' })
+
+    setTimeout(
+      () =>
+        hub.dispatch({
+          type: 'job.completed',
+          jobId: 'job_123',
+          userId: 'user_1',
+          payload: { job_id: 'job_123', user_id: 'user_1', status: 'completed' },
+        }),
+      50
+    )
+
+    const started = Date.now()
+    const result = await client.wait('job_123', { events: hub, fallbackPollSeconds: 30 })
+
+    expect(result.processedVideoUrl).toBe('https://x/out.webm')
+    expect(Date.now() - started).toBeLessThan(5000)
+    expect(mockAxios.history.get!.length).toBe(2)
+  })
+
+  test('should follow the polling strategy and report the estimate', async () => {
+    const client = new VideoBGRemoverClient('test_key')
+    const job = { id: 'job_123', filename: 'test.mp4', created_at: '2024-01-01T10:00:00Z' }
+
+    mockAxios
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'processing', length_seconds: 10 })
+      .onGet(`${API}/v1/jobs/job_123/status`)
+      .replyOnce(200, { ...job, status: 'completed' })
+
+    const polling = {
+      nextPollSeconds: jest.fn(() => 0.01),
+      estimateRemainingSeconds: jest.fn(() => 12.4),
+    }
+    const onStatus = jest.fn()
+
+    await client.wait('job_123', { polling, pollSeconds: 60, onStatus })
+
+    expect(polling.nextPollSeconds).toHaveBeenCalledWith(
+      expect.objectContaining({
+        attempt: 1,
+        status: expect.objectContaining({ lengthSeconds: 10 }),
+      })
+    )
+    expect(onStatus).toHaveBeenCalledWith(
+      'processing',
+      expect.objectContaining({ estimatedTimeRemaining: 12 })
+    )
+  })
+
   test('should handle processing failure', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/jobs/job_123/status').reply(200, {
+    mockAxios.onGet(`${API}/v1/jobs/job_123/status`).reply(200, {
       id: 'job_123',
       status: 'failed',
       filename: 'test.mp4',
@@ -208,7 +472,7 @@ describe('VideoBGRemoverClient', () => {
   test('should start job with webhook_url', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onPost('/v1/jobs/job_123/start').reply(200, {
+    mockAxios.onPost(`${API}/v1/jobs/job_123/start`).reply(200, {
       id: 'job_123',
       status: 'processing',
     })
@@ -239,7 +503,7 @@ describe('VideoBGRemoverClient', () => {
   test('should get webhook deliveries', async () => {
     const client = new VideoBGRemoverClient('test_key')
 
-    mockAxios.onGet('/v1/webhooks/deliveries?video_id=job_123').reply(200, {
+    mockAxios.onGet(`${API}/v1/webhooks/deliveries?video_id=job_123`).reply(200, {
       video_id: 'job_123',
       total_deliveries: 2,
       deliveries: [
@@ -272,16 +536,416 @@ describe('VideoBGRemoverClient', () => {
 
     const deliveries = await client.webhookDeliveries('job_123')
 
-    expect(deliveries.video_id).toBe('job_123')
-    expect(deliveries.total_deliveries).toBe(2)
+    expect(deliveries.videoId).toBe('job_123')
+    expect(deliveries.totalDeliveries).toBe(2)
     expect(deliveries.deliveries).toHaveLength(2)
     if (deliveries.deliveries && deliveries.deliveries.length >= 2) {
       const delivery1 = deliveries.deliveries[0]
       const delivery2 = deliveries.deliveries[1]
       if (delivery1 && delivery2) {
-        expect(delivery1.event_type).toBe('job.started')
-        expect(delivery2.event_type).toBe('job.completed')
+        expect(delivery1.eventType).toBe('job.started')
+        expect(delivery2.eventType).toBe('job.completed')
+        expect(delivery1.errorMessage).toBeUndefined()
+        expect(delivery1.deliveredAt).toEqual(new Date('2025-10-02T10:00:01Z'))
+        expect(delivery2.payload).toEqual({})
+      }
+    }
+  })
+})
+
+describe('VideoBGRemoverClient retries', () => {
+  let server: http.Server
+  let baseUrl: string
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void
+  let requests: string[]
+
+  const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`)
+      handler(req, res)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  test('should retry retryable status codes with backoff', async () => {
+    let calls = 0
+    handler = (_req, res) => {
+      calls++
+      if (calls < 3) {
+        reply(res, calls === 1 ? 503 : 502, { error: 'Unavailable' })
+      } else {
+        reply(res, 200, { total_credits: 10, remaining_credits: 5, used_credits: 5 })
+      }
+    }
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      retry: { maxAttempts: 3, baseDelay: 1 },
+    })
+    const credits = await client.credits()
+
+    expect(credits.remainingCredits).toBe(5)
+    expect(requests).toHaveLength(3)
+  })
+
+  test('should give up after maxAttempts', async () => {
+    handler = (_req, res) => reply(res, 504, { error: 'Gateway timeout' })
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      retry: { maxAttempts: 2, baseDelay: 1 },
+    })
+
+    await expect(client.status('job_123')).rejects.toMatchObject({ statusCode: 504 })
+    expect(requests).toHaveLength(2)
+  })
+
+  test('should not retry non-retryable status codes', async () => {
+    handler = (_req, res) => reply(res, 500, { error: 'Boom' })
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: { baseDelay: 1 } })
+
+    await expect(client.status('job_123')).rejects.toThrow('Boom')
+    expect(requests).toHaveLength(1)
+  })
+
+  test('should not retry job creation after an ambiguous failure', async () => {
+    handler = (_req, res) => reply(res, 502, { error: 'Bad gateway' })
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: { baseDelay: 1 } })
+
+    await expect(
+      client.createJobFile({ filename: 'test.mp4', content_type: 'video/mp4' })
+    ).rejects.toThrow(ApiError)
+    expect(requests).toEqual(['POST /v1/jobs'])
+  })
+
+  test('should retry job creation when the request was rejected with 429', async () => {
+    let calls = 0
+    handler = (_req, res) => {
+      calls++
+      if (calls === 1) {
+        reply(res, 429, { error: 'Too many requests' })
+      } else {
+        reply(res, 200, {
+          id: 'job_123',
+          upload_url: 'https://x',
+          expires_at: '2030-01-01T00:00:00Z',
+        })
+      }
+    }
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: { baseDelay: 1 } })
+    const job = await client.createJobFile({ filename: 'test.mp4', content_type: 'video/mp4' })
+
+    expect(job.id).toBe('job_123')
+    expect(requests).toHaveLength(2)
+  })
+
+  test('should not retry when retries are disabled', async () => {
+    handler = (_req, res) => reply(res, 503, { error: 'Unavailable' })
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false })
+
+    await expect(client.credits()).rejects.toMatchObject({ statusCode: 503 })
+    expect(requests).toHaveLength(1)
+  })
+})
+
+describe('RetryPolicy', () => {
+  test('should grow delays exponentially up to maxDelay', () => {
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 500, jitter: false })
+
+    expect(policy.delay(1)).toBe(100)
+    expect(policy.delay(2)).toBe(200)
+    expect(policy.delay(3)).toBe(400)
+    expect(policy.delay(4)).toBe(500)
+  })
+
+  test('should keep jittered delays within the exponential bound', () => {
+    const policy = new RetryPolicy({ baseDelay: 100 })
+
+    for (let i = 0; i < 20; i++) {
+      const delay = policy.delay(2)
+      expect(delay).toBeGreaterThanOrEqual(0)
+      expect(delay).toBeLessThanOrEqual(200)
+    }
+  })
+
+  test('should only retry connection failures for non-idempotent requests', () => {
+    const policy = new RetryPolicy()
+
+    expect(policy.shouldRetry(1, { code: 'ECONNREFUSED' }, false)).toBe(true)
+    expect(policy.shouldRetry(1, { code: 'ECONNRESET' }, false)).toBe(false)
+    expect(policy.shouldRetry(1, { code: 'ECONNRESET' }, true)).toBe(true)
+    expect(policy.shouldRetry(3, { code: 'ECONNREFUSED' }, true)).toBe(false)
+  })
+})
+
+describe('Polling strategies', () => {
+  const status = (lengthSeconds?: number): Job => ({
+    id: 'job_123',
+    status: 'processing',
+    filename: 'test.mp4',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    lengthSeconds,
+  })
+
+  test('exponential polling should grow up to the cap', () => {
+    const polling = new ExponentialPolling({ initialSeconds: 1, factor: 2, maxSeconds: 5 })
+    const delays = [1, 2, 3, 4].map(attempt =>
+      polling.nextPollSeconds({ attempt, elapsedMs: 0, status: status() })
+    )
+
+    expect(delays).toEqual([1, 2, 4, 5])
+  })
+
+  test('length-aware polling should estimate from the video length', () => {
+    const polling = new LengthAwarePolling({ processingRatio: 2, overheadSeconds: 10 })
+    const context = { attempt: 1, elapsedMs: 5000, status: status(30) }
+
+    // 10s overhead + 30s * 2 - 5s elapsed
+    expect(polling.estimateRemainingSeconds(context)).toBe(65)
+    expect(polling.nextPollSeconds(context)).toBe(30)
+    expect(polling.nextPollSeconds({ ...context, elapsedMs: 66000 })).toBe(2)
+  })
+
+  test('length-aware polling should back off once the estimate has passed', () => {
+    const polling = new LengthAwarePolling({ processingRatio: 1, overheadSeconds: 0 })
+
+    expect(polling.nextPollSeconds({ attempt: 5, elapsedMs: 12000, status: status(10) })).toBe(1)
+    expect(polling.nextPollSeconds({ attempt: 9, elapsedMs: 90000, status: status(10) })).toBe(20)
+  })
+
+  test('length-aware polling should back off exponentially without a length', () => {
+    const polling = new LengthAwarePolling({ minSeconds: 2, maxSeconds: 4 })
+    const context = { attempt: 1, elapsedMs: 0, status: status() }
+
+    expect(polling.estimateRemainingSeconds(context)).toBeUndefined()
+    expect(polling.nextPollSeconds(context)).toBe(2)
+    expect(polling.nextPollSeconds({ ...context, attempt: 3 })).toBe(4)
+  })
+})
+
+describe('VideoBGRemoverClient rate limiting', () => {
+  let server: http.Server
+  let baseUrl: string
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void
+  let requestTimes: number[]
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requestTimes.push(Date.now())
+      handler(req, res)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requestTimes = []
+  })
+
+  const credits = { total_credits: 10, remaining_credits: 5, used_credits: 5 }
+
+  test('should raise RateLimitError with Retry-After and rate limit headers', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 60
+    handler = (_req, res) => {
+      res.writeHead(429, {
+        'Content-Type': 'application/json',
+        'Retry-After': '7',
+        'X-RateLimit-Limit': '100',
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(reset),
+      })
+      res.end(JSON.stringify({ error: 'Too many requests' }))
+    }
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false })
+    const error = await client.credits().catch(e => e)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error).toBeInstanceOf(ApiError)
+    expect(error.statusCode).toBe(429)
+    expect(error.retryAfter).toBe(7)
+    expect(error.rateLimit.limit).toBe(100)
+    expect(error.rateLimit.remaining).toBe(0)
+    expect(error.rateLimit.reset.getTime()).toBe(reset * 1000)
+  })
+
+  test('should wait for Retry-After before retrying', async () => {
+    let calls = 0
+    handler = (_req, res) => {
+      calls++
+      if (calls === 1) {
+        res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': '0.3' })
+        res.end(JSON.stringify({ error: 'Too many requests' }))
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(credits))
       }
     }
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: { baseDelay: 1 } })
+    await client.credits()
+
+    expect(requestTimes).toHaveLength(2)
+    expect(requestTimes[1]! - requestTimes[0]!).toBeGreaterThanOrEqual(250)
+  })
+
+  test('should space requests out when requestsPerSecond is set', async () => {
+    handler = (_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(credits))
+    }
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      rateLimit: { requestsPerSecond: 10 },
+    })
+    await Promise.all([client.credits(), client.credits(), client.credits()])
+
+    expect(requestTimes).toHaveLength(3)
+    expect(requestTimes[2]! - requestTimes[0]!).toBeGreaterThanOrEqual(180)
+  })
+
+  test('should cap concurrent requests when maxConcurrent is set', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    handler = (_req, res) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      setTimeout(() => {
+        inFlight--
+        res.writeHead(200, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify(credits))
+      }, 20)
+    }
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      rateLimit: { maxConcurrent: 2 },
+    })
+    await Promise.all(Array.from({ length: 5 }, () => client.credits()))
+
+    expect(requestTimes).toHaveLength(5)
+    expect(maxInFlight).toBe(2)
+  })
+})
+
+describe('VideoBGRemoverClient hooks and debug logging', () => {
+  let server: http.Server
+  let baseUrl: string
+  let handler: (req: http.IncomingMessage, res: http.ServerResponse) => void
+
+  const reply = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+  const credits = { total_credits: 10, remaining_credits: 5, used_credits: 5 }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => handler(req, res))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  test('should let hooks add headers and observe every attempt', async () => {
+    const correlationIds: Array<string | undefined> = []
+    let calls = 0
+    handler = (req, res) => {
+      correlationIds.push(req.headers['x-correlation-id'] as string | undefined)
+      reply(res, ++calls === 1 ? 503 : 200, calls === 1 ? { error: 'Unavailable' } : credits)
+    }
+    const responses: ClientResponse[] = []
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      retry: { maxAttempts: 2, baseDelay: 1 },
+      hooks: {
+        beforeRequest: request => {
+          request.headers['X-Correlation-Id'] = `corr-${request.attempt}`
+        },
+        afterResponse: response => {
+          responses.push(response)
+        },
+      },
+    })
+    await client.credits()
+
+    expect(correlationIds).toEqual(['corr-1', 'corr-2'])
+    expect(responses.map(response => response.status)).toEqual([503, 200])
+    expect(responses[0]!.error).toBeDefined()
+    expect(responses[1]!.error).toBeUndefined()
+    expect(responses[1]!.request).toMatchObject({
+      method: 'GET',
+      url: `${baseUrl}/v1/credits`,
+      attempt: 2,
+    })
+    expect(responses[1]!.headers['content-type']).toContain('application/json')
+    expect(responses[1]!.durationMs).toBeGreaterThanOrEqual(0)
+    expect(responses[1]!.request.headers).not.toHaveProperty('X-Api-Key')
+  })
+
+  test('should reject with errors thrown by hooks without retrying', async () => {
+    let calls = 0
+    handler = (_req, res) => {
+      calls++
+      reply(res, 200, credits)
+    }
+
+    const client = new VideoBGRemoverClient('test_key', {
+      baseUrl,
+      retry: { maxAttempts: 3, baseDelay: 1 },
+      hooks: {
+        afterResponse: () => {
+          throw new Error('metrics backend down')
+        },
+      },
+    })
+
+    await expect(client.credits()).rejects.toThrow('metrics backend down')
+    expect(calls).toBe(1)
+  })
+
+  test('should log method, URL, status and timing with the API key redacted', async () => {
+    handler = (req, res) =>
+      req.url === '/v1/credits' ? reply(res, 200, credits) : reply(res, 404, { error: 'Not found' })
+    const lines: string[] = []
+
+    const client = new VideoBGRemoverClient('sk_live_secret', {
+      baseUrl,
+      debug: line => lines.push(line),
+    })
+    await client.credits()
+    // A key pasted where a job ID belongs must not leak into the logs
+    await expect(client.status('sk_live_secret')).rejects.toThrow(JobNotFoundError)
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatch(new RegExp(`GET ${baseUrl}/v1/credits -> 200 \\(\\d+ms\\)`))
+    expect(lines[1]).toContain(`GET ${baseUrl}/v1/jobs/[REDACTED]/status -> 404`)
+    expect(lines.join('\n')).not.toContain('sk_live_secret')
   })
 })
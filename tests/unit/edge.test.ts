@@ -0,0 +1,145 @@
+/**
+ * Tests for the client-only entry point used in edge and serverless runtimes
+ */
+
+import * as fs from 'fs'
+import * as http from 'http'
+import * as path from 'path'
+import { AddressInfo, Socket } from 'net'
+import { VideoBGRemoverClient, FetchTransport, ApiError, UploadBody } from '../../src/edge'
+
+/**
+ * Packages and Node built-ins loaded at runtime by a module and everything it imports,
+ * ignoring type-only imports
+ */
+function runtimeDependencies(entry: string): Set<string> {
+  const external = new Set<string>()
+  const visited = new Set<string>()
+  const pending = [entry]
+
+  while (pending.length > 0) {
+    const file = pending.pop()!
+    if (visited.has(file)) {
+      continue
+    }
+    visited.add(file)
+    if (file.endsWith('.json')) {
+      continue
+    }
+
+    const source = fs.readFileSync(file, 'utf-8')
+    const statements = /^(?:import|export)\s+(?!type\b)[^;'"]*?from\s+'([^']+)'/gm
+    for (const [, specifier] of source.matchAll(statements)) {
+      if (!specifier!.startsWith('.')) {
+        external.add(specifier!)
+        continue
+      }
+      const base = path.resolve(path.dirname(file), specifier!)
+      const resolved = [base, `${base}.ts`, path.join(base, 'index.ts')].find(
+        candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+      )
+      pending.push(resolved!)
+    }
+  }
+  return external
+}
+
+// fetch is global from Node 18
+const fetchTest = typeof globalThis.fetch === 'function' ? test : test.skip
+
+describe('client-only entry point', () => {
+  let server: http.Server
+  const sockets = new Set<Socket>()
+  let baseUrl: string
+  let uploads: { body: Buffer; headers: http.IncomingHttpHeaders }[]
+  let uploadStatus: number
+
+  const json = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => {
+        const key = `${req.method} ${req.url}`
+        if (key === 'POST /v1/jobs') {
+          json(res, 200, { id: 'job_1', upload_url: `${baseUrl}/upload/job_1` })
+        } else if (key === 'PUT /upload/job_1') {
+          uploads.push({ body: Buffer.concat(chunks), headers: req.headers })
+          json(res, uploadStatus, {})
+        } else if (key === 'POST /v1/jobs/job_1/start') {
+          json(res, 200, { id: 'job_1', status: 'processing' })
+        } else {
+          json(res, 404, { error: `No route for ${key}` })
+        }
+      })
+    })
+    server.on('connection', socket => {
+      sockets.add(socket)
+      socket.once('close', () => sockets.delete(socket))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    // server.closeAllConnections() needs Node 18.2
+    for (const socket of sockets) {
+      socket.destroy()
+    }
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    uploads = []
+    uploadStatus = 200
+  })
+
+  test('should not load Node built-ins or Node-only packages', () => {
+    const dependencies = runtimeDependencies(path.resolve(__dirname, '../../src/edge.ts'))
+
+    expect([...dependencies]).toEqual(['zod'])
+  })
+
+  fetchTest('should use the fetch transport by default', () => {
+    const client = new VideoBGRemoverClient('test_key')
+
+    expect(client.transport).toBeInstanceOf(FetchTransport)
+  })
+
+  const video = new Uint8Array(Array.from({ length: 48 * 1024 }, (_, i) => i % 256))
+
+  fetchTest.each<[string, () => UploadBody, number | undefined]>([
+    ['a Uint8Array', () => video, undefined],
+    ['a Blob', () => new Blob([video.subarray(0, 1000), video.subarray(1000)]), undefined],
+    ['a ReadableStream', () => new Blob([video]).stream(), video.byteLength],
+  ])('should create a job and upload %s', async (_kind, createBody, contentLength) => {
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false })
+
+    const job = await client.createJobFile({ filename: 'clip.mp4', content_type: 'video/mp4' })
+    await client.uploadVideo(job.uploadUrl, createBody(), {
+      contentType: 'video/mp4',
+      contentLength,
+    })
+    const started = await client.startJob(job.id)
+
+    expect(started.status).toBe('processing')
+    expect(uploads).toHaveLength(1)
+    expect(uploads[0]!.body.equals(Buffer.from(video))).toBe(true)
+    expect(uploads[0]!.headers['content-type']).toBe('video/mp4')
+    expect(uploads[0]!.headers['content-length']).toBe(String(video.byteLength))
+    expect(uploads[0]!.headers['x-api-key']).toBeUndefined()
+  })
+
+  fetchTest('should reject uploads the signed URL refuses', async () => {
+    uploadStatus = 403
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false })
+
+    await expect(
+      client.uploadVideo(`${baseUrl}/upload/job_1`, video, { contentType: 'video/mp4' })
+    ).rejects.toMatchObject({ constructor: ApiError, statusCode: 403 })
+  })
+})
@@ -0,0 +1,1492 @@
+/**
+ * Tests for the background removal pipeline (upload, polling, download)
+ * against a local server standing in for the API and signed storage URLs
+ */
+
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { AddressInfo, Socket } from 'net'
+import { Readable } from 'stream'
+import {
+  VideoBGRemoverClient,
+  Video,
+  MediaContext,
+  RemoveBGOptions,
+  Prefer,
+  AbortError,
+  ProcessingError,
+  UploadProgress,
+  DownloadProgress,
+  ProgressEvent,
+  Foreground,
+  ResumeJobOptions,
+  JobJournal,
+  ResultCache,
+  InsufficientCreditsError,
+  CreditBudgetExceededError,
+  AxiosTransport,
+  BatchOptions,
+  FetchTransport,
+  Transport,
+  ValidationError,
+  WebhookListener,
+} from '../../src/index'
+import { RemoveBackgroundOptions } from '../../src/media/video'
+
+type Route = (req: http.IncomingMessage, res: http.ServerResponse, body: Buffer) => void
+
+const silentLogger = { info: () => {}, debug: () => {}, warn: () => {}, error: () => {} }
+
+// fetch is global from Node 18
+const fetchTest = typeof globalThis.fetch === 'function' ? test : test.skip
+
+describe('Importer', () => {
+  let server: http.Server
+  const sockets = new Set<Socket>()
+  let baseUrl: string
+  let routes: Record<string, Route>
+  let requests: string[]
+  let workDir: string
+  let tmpDir: string
+  let sourcePath: string
+  let ctx: MediaContext
+  let client: VideoBGRemoverClient
+  let probeOutput: string
+
+  const json = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  /** ffprobe output for a 12.3 second H.264 MP4 */
+  const h264Probe = {
+    format: {
+      format_name: 'mov,mp4,m4a,3gp,3g2,mj2',
+      duration: '12.3',
+      tags: { major_brand: 'isom' },
+    },
+    streams: [
+      { codec_type: 'video', codec_name: 'h264', width: 1280, height: 720 },
+      { codec_type: 'audio', codec_name: 'aac' },
+    ],
+  }
+
+  const setProbe = (output: unknown) => fs.writeFileSync(probeOutput, JSON.stringify(output))
+
+  const jobStatus = (status: string, extra: Record<string, unknown> = {}) => ({
+    id: 'job_1',
+    status,
+    filename: 'input.mp4',
+    created_at: '2025-01-01T00:00:00Z',
+    ...extra,
+  })
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => {
+        const key = `${req.method} ${req.url}`
+        requests.push(key)
+        const route = routes[key]
+        if (route) {
+          route(req, res, Buffer.concat(chunks))
+        } else {
+          json(res, 404, { error: `No route for ${key}` })
+        }
+      })
+    })
+    server.on('connection', socket => {
+      sockets.add(socket)
+      socket.once('close', () => sockets.delete(socket))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    // server.closeAllConnections() needs Node 18.2
+    for (const socket of sockets) {
+      socket.destroy()
+    }
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vbr_importer_test_'))
+    tmpDir = path.join(workDir, 'tmp')
+    fs.mkdirSync(tmpDir)
+    sourcePath = path.join(workDir, 'input.mp4')
+    fs.writeFileSync(sourcePath, Buffer.alloc(64 * 1024, 1))
+    // Stand-in for ffprobe printing probeOutput, or failing once it is removed or
+    // when the probed file does not exist
+    probeOutput = path.join(workDir, 'probe.json')
+    setProbe(h264Probe)
+    const ffprobe = path.join(workDir, 'ffprobe')
+    fs.writeFileSync(
+      ffprobe,
+      [
+        '#!/bin/sh',
+        'for last; do :; done',
+        'case "$last" in http*) ;; *) [ -f "$last" ] || exit 1 ;; esac',
+        `cat '${probeOutput}' 2>/dev/null || exit 1`,
+        '',
+      ].join('\n'),
+      { mode: 0o755 }
+    )
+    ctx = {
+      tmp: tmpDir,
+      ffmpeg: 'ffmpeg',
+      ffprobe,
+      logger: silentLogger,
+    } as unknown as MediaContext
+    client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false })
+
+    routes = {
+      'POST /v1/jobs': (_req, res) =>
+        json(res, 200, {
+          id: 'job_1',
+          upload_url: `${baseUrl}/upload/job_1`,
+          expires_at: '2030-01-01T00:00:00Z',
+        }),
+      'PUT /upload/job_1': (_req, res) => json(res, 200, {}),
+      'POST /v1/jobs/job_1/start': (_req, res) => json(res, 200, jobStatus('processing')),
+      'GET /v1/jobs/job_1/status': (_req, res) => json(res, 200, jobStatus('processing')),
+    }
+  })
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  const removeBackground = (extra: Partial<RemoveBackgroundOptions> = {}) =>
+    Video.open(sourcePath).removeBackground({
+      client,
+      options: new RemoveBGOptions(Prefer.WEBM_VP9),
+      waitPollSeconds: 0.02,
+      ctx,
+      ...extra,
+    })
+
+  describe('cancellation', () => {
+    test('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(removeBackground({ signal: controller.signal })).rejects.toThrow(AbortError)
+      expect(requests).toEqual([])
+    })
+
+    test('should stop polling when aborted', async () => {
+      const controller = new AbortController()
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) => {
+        json(res, 200, jobStatus('processing'))
+        // Abort once polling is under way, however long validation and upload took
+        setTimeout(() => controller.abort(), 50)
+      }
+
+      await expect(removeBackground({ signal: controller.signal })).rejects.toThrow(AbortError)
+
+      const polls = requests.length
+      await new Promise(resolve => setTimeout(resolve, 100))
+      expect(requests.length).toBe(polls)
+      expect(requests).toContain('GET /v1/jobs/job_1/status')
+    })
+
+    test('should cancel an in-flight download and delete the partial file', async () => {
+      const controller = new AbortController()
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm', 'Content-Length': '1048576' })
+        res.write(Buffer.alloc(1024))
+        setTimeout(() => controller.abort(), 50)
+      }
+
+      await expect(removeBackground({ signal: controller.signal })).rejects.toThrow(AbortError)
+      expect(requests).toContain('GET /results/job_1.webm')
+      expect(fs.readdirSync(tmpDir)).toEqual([])
+    })
+  })
+
+  describe('upload', () => {
+    beforeEach(() => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Stop after upload' }))
+    })
+
+    test('should stream the file with a Content-Length and report progress', async () => {
+      const size = 3 * 1024 * 1024 + 17
+      fs.writeFileSync(sourcePath, Buffer.alloc(size, 7))
+
+      let received: Buffer | undefined
+      let headers: http.IncomingHttpHeaders = {}
+      routes['PUT /upload/job_1'] = (req, res, body) => {
+        received = body
+        headers = req.headers
+        json(res, 200, {})
+      }
+
+      const progress: UploadProgress[] = []
+      await expect(
+        removeBackground({ onUploadProgress: event => progress.push(event) })
+      ).rejects.toThrow(ProcessingError)
+
+      expect(headers['content-length']).toBe(String(size))
+      expect(headers['content-type']).toBe('video/mp4')
+      expect(received?.length).toBe(size)
+
+      expect(progress.length).toBeGreaterThan(1)
+      expect(progress.every(event => event.totalBytes === size)).toBe(true)
+      expect(progress.map(event => event.bytesSent)).toEqual(
+        [...progress.map(event => event.bytesSent)].sort((a, b) => a - b)
+      )
+      expect(progress[progress.length - 1]!.bytesSent).toBe(size)
+    })
+
+    test('should fail with a descriptive error when the upload is rejected', async () => {
+      routes['PUT /upload/job_1'] = (_req, res) => json(res, 403, { error: 'Signature expired' })
+
+      await expect(removeBackground()).rejects.toThrow('Failed to upload file')
+      expect(requests).not.toContain('POST /v1/jobs/job_1/start')
+    })
+  })
+
+  describe('buffer and stream sources', () => {
+    const data = Buffer.from(Array.from({ length: 3 * 1024 * 1024 + 5 }, (_, i) => i % 253))
+    let received: Buffer | undefined
+    let headers: http.IncomingHttpHeaders
+    let created: unknown
+    let tmpDuringUpload: string[]
+
+    beforeEach(() => {
+      received = undefined
+      routes['POST /v1/jobs'] = (_req, res, body) => {
+        created = JSON.parse(body.toString())
+        json(res, 200, { id: 'job_1', upload_url: `${baseUrl}/upload/job_1` })
+      }
+      routes['PUT /upload/job_1'] = (req, res, body) => {
+        received = body
+        headers = req.headers
+        tmpDuringUpload = fs.readdirSync(tmpDir)
+        json(res, 200, {})
+      }
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Stop after upload' }))
+    })
+
+    const removeBackgroundOf = (video: Video, extra: Partial<RemoveBackgroundOptions> = {}) =>
+      video.removeBackground({
+        client,
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        ...extra,
+      })
+
+    async function* chunksOf(buffer: Buffer) {
+      for (let offset = 0; offset < buffer.length; offset += 100_000) {
+        yield buffer.subarray(offset, offset + 100_000)
+      }
+    }
+
+    test('should upload a buffer without writing a temporary file', async () => {
+      const progress: UploadProgress[] = []
+      const video = Video.fromBuffer(data, { contentType: 'video/webm', filename: 'clip.webm' })
+
+      await expect(
+        removeBackgroundOf(video, { onUploadProgress: event => progress.push(event) })
+      ).rejects.toThrow(ProcessingError)
+
+      expect(created).toEqual({ filename: 'clip.webm', content_type: 'video/webm' })
+      expect(received?.equals(data)).toBe(true)
+      expect(headers['content-type']).toBe('video/webm')
+      expect(headers['content-length']).toBe(String(data.length))
+      expect(tmpDuringUpload).toEqual([])
+      expect(progress[progress.length - 1]).toEqual({
+        bytesSent: data.length,
+        totalBytes: data.length,
+      })
+    })
+
+    test('should stream a source of known size straight to the signed URL', async () => {
+      const video = Video.fromStream(Readable.from(chunksOf(data)), {
+        contentType: 'video/mov',
+        size: data.length,
+      })
+
+      await expect(removeBackgroundOf(video)).rejects.toThrow(ProcessingError)
+
+      expect(created).toEqual({ filename: 'video.mov', content_type: 'video/mov' })
+      expect(received?.equals(data)).toBe(true)
+      expect(headers['content-length']).toBe(String(data.length))
+      expect(tmpDuringUpload).toEqual([])
+    })
+
+    test('should spool a stream of unknown size and remove the file afterwards', async () => {
+      const video = Video.fromStream(chunksOf(data), { contentType: 'video/mp4' })
+
+      await expect(removeBackgroundOf(video)).rejects.toThrow(ProcessingError)
+
+      expect(received?.equals(data)).toBe(true)
+      expect(headers['content-length']).toBe(String(data.length))
+      expect(created).toEqual({ filename: 'video.mp4', content_type: 'video/mp4' })
+      expect(tmpDuringUpload).toHaveLength(1)
+      expect(fs.readdirSync(tmpDir)).toEqual([])
+    })
+
+    test('should refuse to process a stream twice', async () => {
+      const video = Video.fromStream(chunksOf(data), {
+        contentType: 'video/mp4',
+        size: data.length,
+      })
+      await expect(removeBackgroundOf(video)).rejects.toThrow(ProcessingError)
+      requests = []
+
+      await expect(removeBackgroundOf(video)).rejects.toMatchObject({
+        constructor: ValidationError,
+        field: 'src',
+      })
+      expect(requests).toEqual([])
+    })
+  })
+
+  describe('resumable upload', () => {
+    const chunkSize = 256 * 1024
+    const size = 4 * chunkSize + 100
+    let stored: Buffer
+    let contentRanges: string[]
+    let failChunk: (index: number) => 'drop' | 'reject' | undefined
+
+    beforeEach(() => {
+      fs.writeFileSync(sourcePath, Buffer.from(Array.from({ length: size }, (_, i) => i % 251)))
+      stored = Buffer.alloc(0)
+      contentRanges = []
+      failChunk = () => undefined
+
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Stop after upload' }))
+
+      // Minimal stand-in for a storage server speaking the ranged PUT protocol
+      routes['PUT /upload/job_1'] = (req, res, body) => {
+        const contentRange = String(req.headers['content-range'])
+        contentRanges.push(contentRange)
+
+        const part = /bytes (\d+)-(\d+)\/(\d+)/.exec(contentRange)
+        if (part) {
+          const failure = failChunk(contentRanges.filter(r => !r.includes('*')).length)
+          if (failure === 'drop') {
+            req.socket.destroy()
+            return
+          }
+          if (failure === 'reject') {
+            json(res, 403, { error: 'Forbidden' })
+            return
+          }
+          if (parseInt(part[1]!) === stored.length) {
+            stored = Buffer.concat([stored, body])
+          }
+        }
+
+        if (stored.length === size) {
+          json(res, 200, {})
+        } else {
+          res.writeHead(308, stored.length > 0 ? { Range: `bytes=0-${stored.length - 1}` } : {})
+          res.end()
+        }
+      }
+    })
+
+    test('should upload in parts and recover from a dropped connection', async () => {
+      failChunk = index => (index === 3 ? 'drop' : undefined)
+      const progress: UploadProgress[] = []
+
+      await expect(
+        removeBackground({
+          resumable: { chunkSize },
+          onUploadProgress: event => progress.push(event),
+        })
+      ).rejects.toThrow(ProcessingError)
+
+      expect(stored.equals(fs.readFileSync(sourcePath))).toBe(true)
+      expect(contentRanges[0]).toBe(`bytes 0-${chunkSize - 1}/${size}`)
+      expect(contentRanges).toContain(`bytes */${size}`)
+      expect(requests.filter(r => r === 'POST /v1/jobs')).toHaveLength(1)
+      expect(progress[progress.length - 1]).toEqual({ bytesSent: size, totalBytes: size })
+      expect(fs.readdirSync(tmpDir)).toEqual([])
+    })
+
+    test('should resume an interrupted upload without creating a new job', async () => {
+      const stateFile = path.join(workDir, 'upload-state.json')
+      failChunk = index => (index >= 3 ? 'reject' : undefined)
+
+      await expect(removeBackground({ resumable: { chunkSize, stateFile } })).rejects.toThrow(
+        'Failed to upload file'
+      )
+      expect(stored.length).toBe(2 * chunkSize)
+      expect(JSON.parse(fs.readFileSync(stateFile, 'utf-8'))).toMatchObject({
+        jobId: 'job_1',
+        offset: 2 * chunkSize,
+      })
+
+      failChunk = () => undefined
+      contentRanges = []
+      await expect(removeBackground({ resumable: { chunkSize, stateFile } })).rejects.toThrow(
+        ProcessingError
+      )
+
+      expect(stored.equals(fs.readFileSync(sourcePath))).toBe(true)
+      expect(contentRanges[0]).toBe(`bytes */${size}`)
+      expect(contentRanges[1]).toBe(`bytes ${2 * chunkSize}-${3 * chunkSize - 1}/${size}`)
+      expect(requests.filter(r => r === 'POST /v1/jobs')).toHaveLength(1)
+      expect(fs.existsSync(stateFile)).toBe(false)
+    })
+
+    test('should start over when the source file changed', async () => {
+      const stateFile = path.join(workDir, 'upload-state.json')
+      failChunk = index => (index >= 2 ? 'reject' : undefined)
+
+      await expect(removeBackground({ resumable: { chunkSize, stateFile } })).rejects.toThrow()
+      expect(fs.existsSync(stateFile)).toBe(true)
+
+      fs.appendFileSync(sourcePath, 'changed')
+      failChunk = () => undefined
+      await expect(removeBackground({ resumable: { chunkSize, stateFile } })).rejects.toThrow(
+        ProcessingError
+      )
+
+      expect(requests.filter(r => r === 'POST /v1/jobs')).toHaveLength(2)
+    })
+
+    test('should refuse a 2xx for a part that does not end the file', async () => {
+      routes['PUT /upload/job_1'] = (req, res) => {
+        contentRanges.push(String(req.headers['content-range']))
+        json(res, 200, {})
+      }
+
+      await expect(removeBackground({ resumable: { chunkSize } })).rejects.toThrow(
+        'does not support resumable uploads'
+      )
+      expect(contentRanges).toEqual([`bytes 0-${chunkSize - 1}/${size}`])
+      expect(requests).not.toContain('POST /v1/jobs/job_1/start')
+    })
+
+    test('should give up on parts the server never persists', async () => {
+      routes['PUT /upload/job_1'] = (req, res) => {
+        contentRanges.push(String(req.headers['content-range']))
+        res.writeHead(308)
+        res.end()
+      }
+
+      await expect(removeBackground({ resumable: { chunkSize, maxAttempts: 3 } })).rejects.toThrow(
+        'Failed to upload file'
+      )
+      expect(contentRanges.filter(range => !range.includes('*'))).toHaveLength(3)
+    })
+  })
+
+  describe('download', () => {
+    const result = Buffer.alloc(200 * 1024, 3)
+    let downloads: number
+
+    beforeEach(() => {
+      downloads = 0
+      client = new VideoBGRemoverClient('test_key', {
+        baseUrl,
+        retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 1 },
+      })
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+    })
+
+    const serveResult = (truncateAttempts: number) => {
+      routes['GET /results/job_1.webm'] = (req, res) => {
+        downloads++
+        res.writeHead(200, { 'Content-Type': 'video/webm', 'Content-Length': result.length })
+        if (downloads <= truncateAttempts) {
+          res.write(result.subarray(0, result.length / 2), () => req.socket.destroy())
+        } else {
+          res.end(result)
+        }
+      }
+    }
+
+    test('should download to the final path and report progress', async () => {
+      serveResult(0)
+      const progress: DownloadProgress[] = []
+
+      const foreground = await removeBackground({
+        onDownloadProgress: event => progress.push(event),
+      })
+
+      expect(foreground.format).toBe('webm_vp9')
+      expect(fs.readFileSync(foreground.primaryPath).equals(result)).toBe(true)
+      expect(fs.readdirSync(tmpDir).filter(name => name.endsWith('.part'))).toEqual([])
+      expect(progress.length).toBeGreaterThan(0)
+      expect(progress[progress.length - 1]).toEqual({
+        bytesReceived: result.length,
+        totalBytes: result.length,
+      })
+    })
+
+    test('should retry a download that was cut off mid-stream', async () => {
+      serveResult(1)
+
+      const foreground = await removeBackground()
+
+      expect(downloads).toBe(2)
+      expect(fs.readFileSync(foreground.primaryPath).equals(result)).toBe(true)
+      expect(fs.readdirSync(tmpDir)).toHaveLength(1)
+    })
+
+    test('should fail without leaving files behind when every attempt is truncated', async () => {
+      serveResult(Infinity)
+
+      await expect(removeBackground()).rejects.toThrow('Failed to download')
+      expect(downloads).toBe(3)
+      expect(fs.readdirSync(tmpDir)).toEqual([])
+    })
+
+    test.each<[string, ConstructorParameters<typeof VideoBGRemoverClient>[1], number]>([
+      ['retry: false', { retry: false }, 1],
+      ['a custom maxAttempts', { retry: { maxAttempts: 5, baseDelay: 1, maxDelay: 1 } }, 5],
+    ])('should follow the client retry policy with %s', async (_name, options, attempts) => {
+      client = new VideoBGRemoverClient('test_key', { baseUrl, ...options })
+      serveResult(Infinity)
+
+      await expect(removeBackground()).rejects.toThrow('Failed to download')
+      expect(downloads).toBe(attempts)
+    })
+  })
+
+  describe('progress events', () => {
+    test('should report every stage of the pipeline in order', async () => {
+      let polls = 0
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          ++polls < 3
+            ? jobStatus('processing')
+            : jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+      const events: ProgressEvent[] = []
+      const statuses: string[] = []
+
+      const foreground = await removeBackground({
+        onProgress: event => events.push(event),
+        onStatus: status => statuses.push(status),
+      })
+
+      const stages = events.map(e => e.type).filter((type, i, all) => type !== all[i - 1])
+      expect(stages).toEqual([
+        'format_selected',
+        'job_created',
+        'upload',
+        'job_started',
+        'processing',
+        'download',
+        'ready',
+      ])
+      expect(events[0]).toEqual({ type: 'format_selected', format: 'webm_vp9' })
+
+      const processing = events.filter(e => e.type === 'processing')
+      expect(processing.map(e => e.type === 'processing' && e.status)).toEqual([
+        'processing',
+        'processing',
+        'completed',
+      ])
+      expect(processing[2]).toMatchObject({ progress: 1, jobId: 'job_1' })
+
+      expect(events[events.length - 1]).toEqual({ type: 'ready', jobId: 'job_1', foreground })
+      expect(statuses).toEqual(['processing'])
+    })
+  })
+
+  describe('webhook events', () => {
+    test('should poll at the normal rate when no webhook URL is registered', async () => {
+      let startBody: Record<string, unknown> = {}
+      let polls = 0
+      routes['POST /v1/jobs/job_1/start'] = (_req, res, body) => {
+        startBody = JSON.parse(body.toString())
+        json(res, 200, jobStatus('processing'))
+      }
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          ++polls < 3
+            ? jobStatus('processing')
+            : jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+      const listener = await WebhookListener.start({ secret: 'whsec_test', host: '127.0.0.1' })
+
+      try {
+        const started = Date.now()
+        await removeBackground({ events: listener, fallbackPollSeconds: 30 })
+
+        expect(Date.now() - started).toBeLessThan(5000)
+        expect(startBody).not.toHaveProperty('webhook_url')
+        expect(polls).toBe(3)
+      } finally {
+        await listener.close()
+      }
+    })
+  })
+
+  describe('job deletion', () => {
+    beforeEach(() => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+    })
+
+    test('should delete the job after a successful download when asked', async () => {
+      routes['DELETE /v1/jobs/job_1'] = (_req, res) => {
+        res.writeHead(204)
+        res.end()
+      }
+
+      const foreground = await removeBackground({ deleteAfterDownload: true })
+
+      expect(fs.existsSync(foreground.primaryPath)).toBe(true)
+      expect(requests.slice(-2)).toEqual(['GET /results/job_1.webm', 'DELETE /v1/jobs/job_1'])
+    })
+
+    test('should keep the downloaded result when deletion fails', async () => {
+      routes['DELETE /v1/jobs/job_1'] = (_req, res) => json(res, 409, { error: 'Busy' })
+
+      const foreground = await removeBackground({ deleteAfterDownload: true })
+
+      expect(fs.existsSync(foreground.primaryPath)).toBe(true)
+      expect(requests).toContain('DELETE /v1/jobs/job_1')
+    })
+
+    test('should not delete jobs by default', async () => {
+      await removeBackground()
+
+      expect(requests).not.toContain('DELETE /v1/jobs/job_1')
+    })
+  })
+
+  describe('transports', () => {
+    const result = Buffer.alloc(32 * 1024, 5)
+    let uploaded: Buffer | undefined
+
+    beforeEach(() => {
+      uploaded = undefined
+      routes['PUT /upload/job_1'] = (_req, res, body) => {
+        uploaded = body
+        json(res, 200, {})
+      }
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm', 'Content-Length': result.length })
+        res.end(result)
+      }
+    })
+
+    test("should send uploads and downloads through the client's transport", async () => {
+      const inner = new AxiosTransport()
+      const sent: string[] = []
+      const transport: Transport = {
+        request: request => {
+          sent.push(`${request.method} ${new URL(request.url).pathname}`)
+          return inner.request(request)
+        },
+      }
+      client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false, transport })
+
+      await removeBackground()
+
+      expect(sent).toEqual(requests)
+      expect(sent).toContain('PUT /upload/job_1')
+      expect(sent).toContain('GET /results/job_1.webm')
+    })
+
+    test.each([
+      ['a plain', {}],
+      ['a resumable', { resumable: { chunkSize: 16 * 1024, maxAttempts: 1 } }],
+    ])('should close the source when %s upload fails unread', async (_name, extra) => {
+      const inner = new AxiosTransport()
+      const bodies: Readable[] = []
+      const transport: Transport = {
+        request: request => {
+          if (request.method === 'PUT') {
+            bodies.push(request.body as Readable)
+            return Promise.reject(new Error('connection reset'))
+          }
+          return inner.request(request)
+        },
+      }
+      client = new VideoBGRemoverClient('test_key', { baseUrl, retry: false, transport })
+
+      await expect(removeBackground(extra)).rejects.toThrow('connection reset')
+
+      expect(bodies).toHaveLength(1)
+      expect(bodies[0]!.destroyed).toBe(true)
+    })
+
+    fetchTest('should upload and download with the fetch transport', async () => {
+      client = new VideoBGRemoverClient('test_key', {
+        baseUrl,
+        retry: false,
+        transport: new FetchTransport(),
+      })
+
+      const foreground = await removeBackground()
+
+      expect(uploaded?.equals(fs.readFileSync(sourcePath))).toBe(true)
+      expect(fs.readFileSync(foreground.primaryPath).equals(result)).toBe(true)
+    })
+
+    fetchTest('should resume ranged uploads with the fetch transport', async () => {
+      let stored = Buffer.alloc(0)
+      routes['PUT /upload/job_1'] = (req, res, body) => {
+        stored = Buffer.concat([stored, body])
+        if (stored.length === 64 * 1024) {
+          json(res, 200, {})
+        } else {
+          res.writeHead(308, { Range: `bytes=0-${stored.length - 1}` })
+          res.end()
+        }
+      }
+      client = new VideoBGRemoverClient('test_key', {
+        baseUrl,
+        retry: false,
+        transport: new FetchTransport(),
+      })
+
+      await removeBackground({ resumable: { chunkSize: 16 * 1024 } })
+
+      expect(stored.equals(fs.readFileSync(sourcePath))).toBe(true)
+      expect(requests.filter(r => r === 'PUT /upload/job_1')).toHaveLength(4)
+    })
+  })
+
+  describe('resuming a job', () => {
+    const completed = () =>
+      jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+
+    beforeEach(() => {
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+    })
+
+    const fromJob = (extra: Partial<ResumeJobOptions> = {}) =>
+      Foreground.fromJob(client, 'job_1', {
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        ...extra,
+      })
+
+    test('should download a completed job without starting it again', async () => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) => json(res, 200, completed())
+
+      const foreground = await fromJob()
+
+      expect(fs.readFileSync(foreground.primaryPath)).toHaveLength(1024)
+      expect(requests).not.toContain('POST /v1/jobs')
+      expect(requests).not.toContain('POST /v1/jobs/job_1/start')
+    })
+
+    test('should wait on a job that is still processing', async () => {
+      let polls = 0
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, ++polls < 3 ? jobStatus('processing') : completed())
+
+      await fromJob()
+
+      expect(polls).toBe(3)
+      expect(requests).not.toContain('POST /v1/jobs/job_1/start')
+    })
+
+    test('should start an uploaded job that was never started', async () => {
+      let startBody: { background?: { transparent_format?: string } } | undefined
+      routes['POST /v1/jobs/job_1/start'] = (_req, res, body) => {
+        startBody = JSON.parse(body.toString())
+        json(res, 200, jobStatus('processing'))
+      }
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, startBody ? completed() : jobStatus('uploaded'))
+
+      await fromJob()
+
+      expect(startBody?.background?.transparent_format).toBe('webm_vp9')
+    })
+
+    test('should reject failed jobs and jobs without an upload', async () => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Bad video' }))
+      await expect(fromJob()).rejects.toThrow(ProcessingError)
+
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) => json(res, 200, jobStatus('created'))
+      await expect(fromJob()).rejects.toThrow('no uploaded video')
+    })
+  })
+
+  describe('job journal', () => {
+    let journal: JobJournal
+
+    beforeEach(() => {
+      journal = new JobJournal(path.join(workDir, 'jobs.jsonl'))
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+    })
+
+    const completed = () =>
+      jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+
+    test('should record every state of a job', async () => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) => json(res, 200, completed())
+
+      const foreground = await removeBackground({ journal })
+
+      const states = fs
+        .readFileSync(journal.path, 'utf-8')
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line).state)
+      expect(states).toEqual(['created', 'started', 'completed'])
+      expect(journal.entries()).toEqual([
+        expect.objectContaining({
+          jobId: 'job_1',
+          state: 'completed',
+          source: sourcePath,
+          format: 'webm_vp9',
+          resultPath: foreground.primaryPath,
+        }),
+      ])
+      expect(journal.unfinished()).toEqual([])
+    })
+
+    test('should recover a job left unfinished by a crash', async () => {
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(), 100)
+      await expect(removeBackground({ journal, signal: controller.signal })).rejects.toThrow(
+        AbortError
+      )
+      expect(journal.unfinished()).toEqual([expect.objectContaining({ state: 'started' })])
+
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) => json(res, 200, completed())
+      requests = []
+      const recovered = await journal.recover(client, { ctx, waitPollSeconds: 0.02 })
+
+      expect(recovered).toHaveLength(1)
+      expect(recovered[0]!.foreground!.format).toBe('webm_vp9')
+      expect(requests).not.toContain('POST /v1/jobs')
+      expect(journal.unfinished()).toEqual([])
+    })
+
+    test('should keep a job unfinished when polling hits a server error', async () => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 500, { error: 'Internal server error' })
+
+      await expect(removeBackground({ journal })).rejects.toThrow(ProcessingError)
+
+      expect(journal.unfinished()).toEqual([
+        expect.objectContaining({ jobId: 'job_1', state: 'started' }),
+      ])
+    })
+
+    test('should mark failed jobs and skip lines cut short by a crash', async () => {
+      journal.record('job_1', 'started', { source: sourcePath, format: 'webm_vp9' })
+      fs.appendFileSync(journal.path, '{"jobId":"job_2","sta')
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Bad video' }))
+
+      const recovered = await journal.recover(client, { ctx, waitPollSeconds: 0.02 })
+
+      expect(recovered[0]!.error).toBeInstanceOf(ProcessingError)
+      expect(journal.entries()).toEqual([
+        expect.objectContaining({ jobId: 'job_1', state: 'failed', error: 'Bad video' }),
+      ])
+    })
+
+    test('should compact the journal to one line per unfinished job', () => {
+      journal.record('job_1', 'created', { source: sourcePath })
+      journal.record('job_1', 'started', { format: 'webm_vp9' })
+      journal.record('job_2', 'created')
+      journal.record('job_2', 'completed')
+
+      journal.compact({ dropFinished: true })
+
+      const lines = fs.readFileSync(journal.path, 'utf-8').trim().split('\n')
+      expect(lines).toHaveLength(1)
+      expect(JSON.parse(lines[0]!)).toMatchObject({
+        jobId: 'job_1',
+        state: 'started',
+        source: sourcePath,
+      })
+    })
+  })
+
+  describe('result cache', () => {
+    let cache: ResultCache
+
+    beforeEach(() => {
+      cache = new ResultCache({ dir: path.join(workDir, 'cache'), ctx })
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(
+          res,
+          200,
+          jobStatus('completed', { processed_video_url: `${baseUrl}/results/job_1.webm` })
+        )
+      routes['GET /results/job_1.webm'] = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.end(Buffer.alloc(1024, 3))
+      }
+    })
+
+    const writeResult = (name: string, size: number) => {
+      const filePath = path.join(workDir, name)
+      fs.writeFileSync(filePath, Buffer.alloc(size, 5))
+      return new Foreground('webm_vp9', filePath)
+    }
+
+    test('should serve an identical source from the cache without a new job', async () => {
+      const first = await removeBackground({ cache })
+      requests = []
+      const events: ProgressEvent[] = []
+
+      const second = await removeBackground({ cache, onProgress: event => events.push(event) })
+
+      expect(requests).toEqual([])
+      expect(second.format).toBe('webm_vp9')
+      expect(second.primaryPath).not.toBe(first.primaryPath)
+      expect(fs.readFileSync(second.primaryPath).equals(fs.readFileSync(first.primaryPath))).toBe(
+        true
+      )
+      expect(events[events.length - 1]).toMatchObject({ type: 'ready', jobId: 'job_1' })
+    })
+
+    test('should key results by content, format and model', async () => {
+      const hash = await ResultCache.hashFile(sourcePath)
+      fs.writeFileSync(path.join(workDir, 'copy.mp4'), fs.readFileSync(sourcePath))
+
+      expect(await ResultCache.hashFile(path.join(workDir, 'copy.mp4'))).toBe(hash)
+      expect(cache.key(hash, 'webm_vp9')).toBe(cache.key(hash, 'webm_vp9'))
+      expect(cache.key(hash, 'webm_vp9')).not.toBe(cache.key(hash, 'mov_prores'))
+      expect(cache.key(hash, 'webm_vp9')).not.toBe(
+        cache.key(hash, 'webm_vp9', 'videobgremover-light')
+      )
+    })
+
+    test('should evict the least recently used results beyond maxSize', async () => {
+      const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+      cache = new ResultCache({ dir: path.join(workDir, 'cache'), maxSize: 2500, ctx })
+      cache.put('a', 'job_a', writeResult('a.webm', 1000))
+      await tick()
+      cache.put('b', 'job_b', writeResult('b.webm', 1000))
+      await tick()
+      expect(cache.get('a')).toBeDefined()
+
+      cache.put('c', 'job_c', writeResult('c.webm', 1000))
+
+      expect(cache.get('a')?.jobId).toBe('job_a')
+      expect(cache.get('b')).toBeUndefined()
+      expect(cache.get('c')?.jobId).toBe('job_c')
+    })
+
+    test('should not evict results handed out by get', async () => {
+      const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+      cache = new ResultCache({ dir: path.join(workDir, 'cache'), maxSize: 2500, ctx })
+      cache.put('a', 'job_a', writeResult('a.webm', 1000))
+      const cached = cache.get('a')!
+      await tick()
+      cache.put('b', 'job_b', writeResult('b.webm', 1000))
+      await tick()
+
+      cache.put('c', 'job_c', writeResult('c.webm', 1000))
+
+      expect(fs.existsSync(cached.foreground.primaryPath)).toBe(true)
+      expect(cache.get('b')).toBeUndefined()
+      expect(cache.get('c')?.jobId).toBe('job_c')
+    })
+
+    test('should drop results older than maxAge', () => {
+      cache.put('a', 'job_a', writeResult('a.webm', 10))
+      const metaPath = path.join(cache.dir, 'a', 'meta.json')
+      const meta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'))
+      fs.writeFileSync(metaPath, JSON.stringify({ ...meta, createdAt: 0 }))
+
+      expect(cache.get('a')).toBeUndefined()
+      expect(fs.existsSync(path.join(cache.dir, 'a'))).toBe(false)
+    })
+  })
+
+  describe('batch processing', () => {
+    test('should cap each stage separately and collect per-item failures', async () => {
+      let created = 0
+      let uploading = 0
+      let maxUploading = 0
+      const polls: Record<string, number> = {}
+      let processing = 0
+      let maxProcessing = 0
+
+      routes['POST /v1/jobs'] = (_req, res) => {
+        const id = `job_${++created}`
+        json(res, 200, { id, upload_url: `${baseUrl}/upload/${id}` })
+      }
+      for (let n = 1; n <= 4; n++) {
+        const id = `job_${n}`
+        routes[`PUT /upload/${id}`] = (_req, res) => {
+          maxUploading = Math.max(maxUploading, ++uploading)
+          setTimeout(() => {
+            uploading--
+            json(res, id === 'job_3' ? 403 : 200, {})
+          }, 30)
+        }
+        routes[`POST /v1/jobs/${id}/start`] = (_req, res) => {
+          maxProcessing = Math.max(maxProcessing, ++processing)
+          json(res, 200, { ...jobStatus('processing'), id })
+        }
+        routes[`GET /v1/jobs/${id}/status`] = (_req, res) => {
+          polls[id] = (polls[id] || 0) + 1
+          if (polls[id]! < 3) {
+            json(res, 200, { ...jobStatus('processing'), id })
+            return
+          }
+          processing--
+          json(res, 200, {
+            ...jobStatus('completed', { processed_video_url: `${baseUrl}/results/${id}.webm` }),
+            id,
+          })
+        }
+        routes[`GET /results/${id}.webm`] = (_req, res) => {
+          res.writeHead(200, { 'Content-Type': 'video/webm' })
+          res.end(Buffer.alloc(256, n))
+        }
+      }
+
+      const videos = [1, 2, 3, 4].map(n => {
+        const file = path.join(workDir, `clip${n}.mp4`)
+        fs.writeFileSync(file, Buffer.alloc(1024, n))
+        return Video.open(file)
+      })
+      const itemEvents = new Map<Video, string[]>()
+      const done: Video[] = []
+
+      const results = await Video.removeBackgroundMany(videos, {
+        client,
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        concurrency: { uploads: 2, jobs: 1, downloads: 1 },
+        onItemProgress: (video, event) =>
+          itemEvents.set(video, [...(itemEvents.get(video) || []), event.type]),
+        onItemDone: video => done.push(video),
+      })
+
+      expect([...results.keys()]).toEqual(videos)
+      expect(maxUploading).toBe(2)
+      expect(maxProcessing).toBe(1)
+      expect(done).toHaveLength(4)
+
+      const statuses = videos.map(video => results.get(video)!.status)
+      expect(statuses.filter(status => status === 'fulfilled')).toHaveLength(3)
+      const failed = videos.find(video => results.get(video)!.status === 'rejected')!
+      expect(String((results.get(failed) as { error: unknown }).error)).toContain('upload')
+      expect(itemEvents.get(failed)).not.toContain('ready')
+      for (const video of videos.filter(v => v !== failed)) {
+        expect(itemEvents.get(video)).toContain('ready')
+      }
+    })
+
+    test('should choose the format once and spool sources in the upload stage', async () => {
+      const ffmpegLog = path.join(workDir, 'ffmpeg.log')
+      const ffmpeg = path.join(workDir, 'ffmpeg')
+      fs.writeFileSync(
+        ffmpeg,
+        ['#!/bin/sh', `echo "$@" >> '${ffmpegLog}'`, 'echo libvpx-vp9 yuva420p', ''].join('\n'),
+        { mode: 0o755 }
+      )
+      let created = 0
+      const spooledDuringUpload: number[] = []
+      const formats: string[] = []
+
+      routes['POST /v1/jobs'] = (_req, res) => {
+        const id = `job_${++created}`
+        json(res, 200, { id, upload_url: `${baseUrl}/upload/${id}` })
+      }
+      for (let n = 1; n <= 3; n++) {
+        const id = `job_${n}`
+        routes[`PUT /upload/${id}`] = (_req, res) => {
+          spooledDuringUpload.push(fs.readdirSync(tmpDir).length)
+          json(res, 200, {})
+        }
+        routes[`POST /v1/jobs/${id}/start`] = (_req, res, body) => {
+          formats.push(JSON.parse(body.toString()).background.transparent_format)
+          json(res, 200, { ...jobStatus('processing'), id })
+        }
+        routes[`GET /v1/jobs/${id}/status`] = (_req, res) =>
+          json(res, 200, { ...jobStatus('failed', { message: 'Stop after upload' }), id })
+      }
+
+      async function* chunks(fill: number) {
+        yield Buffer.alloc(4096, fill)
+      }
+      const videos = [1, 2, 3].map(n => Video.fromStream(chunks(n), { contentType: 'video/mp4' }))
+
+      const results = await Video.removeBackgroundMany(videos, {
+        client,
+        options: new RemoveBGOptions(Prefer.AUTO),
+        waitPollSeconds: 0.02,
+        ctx: { ...ctx, ffmpeg } as MediaContext,
+        concurrency: { uploads: 1 },
+      })
+
+      expect([...results.values()].map(result => result.status)).toEqual([
+        'rejected',
+        'rejected',
+        'rejected',
+      ])
+      expect(fs.readFileSync(ffmpegLog, 'utf-8').trim().split('\n')).toHaveLength(2)
+      expect(formats).toEqual(['webm_vp9', 'webm_vp9', 'webm_vp9'])
+      expect(spooledDuringUpload).toEqual([1, 1, 1])
+      expect(fs.readdirSync(tmpDir)).toEqual([])
+    })
+  })
+
+  describe('batch input and callbacks', () => {
+    beforeEach(() => {
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Stop after upload' }))
+    })
+
+    const runBatch = (videos: Video[], extra: Partial<BatchOptions> = {}) =>
+      Video.removeBackgroundMany(videos, {
+        client,
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        ...extra,
+      })
+
+    test('should refuse the same video twice', async () => {
+      const video = Video.open(sourcePath)
+
+      await expect(runBatch([video, video])).rejects.toMatchObject({
+        constructor: ValidationError,
+        field: 'videos',
+      })
+      expect(requests).toEqual([])
+    })
+
+    test('should keep every result when onItemDone throws', async () => {
+      const video = Video.open(sourcePath)
+
+      const results = await runBatch([video], {
+        onItemDone: () => {
+          throw new Error('callback bug')
+        },
+      })
+
+      expect(results.get(video)?.status).toBe('rejected')
+    })
+  })
+
+  describe('credit checks', () => {
+    test('should estimate credits from the probed duration', async () => {
+      const estimate = await Video.open(sourcePath).estimateCredits({ ctx })
+
+      expect(estimate).toEqual({ durationSeconds: 12.3, credits: 13 })
+    })
+
+    test('should probe paths with shell characters by their exact name', async () => {
+      const file = path.join(workDir, 'take$2 `id`.mp4')
+      fs.writeFileSync(file, Buffer.alloc(1024, 1))
+
+      const estimate = await Video.open(file).estimateCredits({ ctx })
+
+      expect(estimate.durationSeconds).toBe(12.3)
+    })
+
+    test('should refuse to create a job the balance cannot cover', async () => {
+      routes['GET /v1/credits'] = (_req, res) =>
+        json(res, 200, { total_credits: 100, remaining_credits: 10, used_credits: 90 })
+
+      await expect(removeBackground({ checkCredits: true })).rejects.toBeInstanceOf(
+        InsufficientCreditsError
+      )
+      expect(requests).toEqual(['GET /v1/credits'])
+    })
+
+    test('should refuse batch items past maxCredits', async () => {
+      let created = 0
+      routes['POST /v1/jobs'] = (_req, res) => {
+        const id = `job_${++created}`
+        json(res, 200, { id, upload_url: `${baseUrl}/upload/${id}` })
+      }
+      for (const id of ['job_1', 'job_2']) {
+        routes[`PUT /upload/${id}`] = (_req, res) => json(res, 200, {})
+        routes[`POST /v1/jobs/${id}/start`] = (_req, res) =>
+          json(res, 200, { ...jobStatus('processing'), id })
+        routes[`GET /v1/jobs/${id}/status`] = (_req, res) =>
+          json(res, 200, {
+            ...jobStatus('completed', { processed_video_url: `${baseUrl}/results/${id}.webm` }),
+            id,
+          })
+        routes[`GET /results/${id}.webm`] = (_req, res) => {
+          res.writeHead(200, { 'Content-Type': 'video/webm' })
+          res.end(Buffer.alloc(256, 1))
+        }
+      }
+      const videos = [1, 2, 3].map(n => {
+        const file = path.join(workDir, `clip${n}.mp4`)
+        fs.writeFileSync(file, Buffer.alloc(1024, n))
+        return Video.open(file)
+      })
+
+      const results = await Video.removeBackgroundMany(videos, {
+        client,
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        maxCredits: 30,
+      })
+
+      const rejected = [...results.values()].filter(result => result.status === 'rejected')
+      expect(created).toBe(2)
+      expect(rejected).toHaveLength(1)
+      expect((rejected[0] as { error: unknown }).error).toBeInstanceOf(CreditBudgetExceededError)
+    })
+
+    test('should release the credits of batch items that fail before starting', async () => {
+      let created = 0
+      const started: string[] = []
+      routes['POST /v1/jobs'] = (_req, res) => {
+        const id = `job_${++created}`
+        json(res, 200, { id, upload_url: `${baseUrl}/upload/${id}` })
+      }
+      for (const id of ['job_1', 'job_2', 'job_3', 'job_4']) {
+        routes[`PUT /upload/${id}`] = (_req, res) =>
+          // The third upload outlasts the failed start of the second job
+          setTimeout(() => json(res, id === 'job_1' ? 403 : 200, {}), id === 'job_3' ? 50 : 0)
+        routes[`POST /v1/jobs/${id}/start`] = (_req, res) => {
+          if (id === 'job_2') {
+            json(res, 402, { error: 'Insufficient credits' })
+            return
+          }
+          started.push(id)
+          json(res, 200, { ...jobStatus('processing'), id })
+        }
+        routes[`GET /v1/jobs/${id}/status`] = (_req, res) =>
+          json(res, 200, {
+            ...jobStatus('completed', { processed_video_url: `${baseUrl}/results/${id}.webm` }),
+            id,
+          })
+        routes[`GET /results/${id}.webm`] = (_req, res) => {
+          res.writeHead(200, { 'Content-Type': 'video/webm' })
+          res.end(Buffer.alloc(256, 1))
+        }
+      }
+      const videos = [1, 2, 3, 4].map(n => {
+        const file = path.join(workDir, `clip${n}.mp4`)
+        fs.writeFileSync(file, Buffer.alloc(1024, n))
+        return Video.open(file)
+      })
+
+      const results = await Video.removeBackgroundMany(videos, {
+        client,
+        options: new RemoveBGOptions(Prefer.WEBM_VP9),
+        waitPollSeconds: 0.02,
+        ctx,
+        concurrency: { uploads: 1 },
+        maxCredits: 30,
+      })
+
+      expect(videos.map(video => results.get(video)!.status)).toEqual([
+        'rejected',
+        'rejected',
+        'fulfilled',
+        'fulfilled',
+      ])
+      expect(started).toEqual(['job_3', 'job_4'])
+    })
+  })
+
+  describe('source validation', () => {
+    let created: { content_type?: string } | undefined
+
+    beforeEach(() => {
+      created = undefined
+      routes['POST /v1/jobs'] = (_req, res, body) => {
+        created = JSON.parse(body.toString())
+        json(res, 200, { id: 'job_1', upload_url: `${baseUrl}/upload/job_1` })
+      }
+      routes['GET /v1/jobs/job_1/status'] = (_req, res) =>
+        json(res, 200, jobStatus('failed', { message: 'Stop after upload' }))
+    })
+
+    test.each([
+      [
+        'video/webm',
+        {
+          format: { format_name: 'matroska,webm', duration: '4.0' },
+          streams: [{ codec_type: 'video', codec_name: 'vp9' }],
+        },
+      ],
+      [
+        'video/mov',
+        {
+          ...h264Probe,
+          format: { ...h264Probe.format, tags: { major_brand: 'qt  ' } },
+        },
+      ],
+    ])('should send the probed container as %s', async (contentType, probe) => {
+      setProbe(probe)
+
+      await expect(removeBackground()).rejects.toThrow(ProcessingError)
+
+      expect(created?.content_type).toBe(contentType)
+    })
+
+    test.each<[string, string, () => void, Partial<RemoveBackgroundOptions>]>([
+      [
+        'streams',
+        'an audio-only file',
+        () => setProbe({ ...h264Probe, streams: [{ codec_type: 'audio', codec_name: 'aac' }] }),
+        {},
+      ],
+      ['src', 'a corrupt file', () => fs.rmSync(probeOutput), {}],
+      [
+        'duration',
+        'a file without duration under maxDurationSeconds',
+        () => setProbe({ ...h264Probe, format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2' } }),
+        { validate: { maxDurationSeconds: 600 } },
+      ],
+      [
+        'duration',
+        'a video over maxDurationSeconds',
+        () => {},
+        { validate: { maxDurationSeconds: 10 } },
+      ],
+      ['size', 'a file over maxSizeBytes', () => {}, { validate: { maxSizeBytes: 1024 } }],
+      [
+        'codec',
+        'a codec outside allowedCodecs',
+        () =>
+          setProbe({ ...h264Probe, streams: [{ codec_type: 'video', codec_name: 'mpeg2video' }] }),
+        { validate: { allowedCodecs: ['h264', 'hevc'] } },
+      ],
+      [
+        'container',
+        'a container outside allowedContainers',
+        () =>
+          setProbe({ ...h264Probe, format: { format_name: 'matroska,webm', duration: '12.3' } }),
+        { validate: { allowedContainers: ['video/mp4', 'video/webm'] } },
+      ],
+    ])('should reject %s for %s before creating a job', async (field, _source, arrange, extra) => {
+      arrange()
+
+      await expect(removeBackground(extra)).rejects.toMatchObject({
+        constructor: ValidationError,
+        field,
+      })
+      expect(requests).toEqual([])
+    })
+
+    test('should accept any codec and container unless they are restricted', async () => {
+      setProbe({
+        format: { format_name: 'matroska,webm', duration: '12.3' },
+        streams: [{ codec_type: 'video', codec_name: 'mpeg2video' }],
+      })
+
+      await expect(removeBackground()).rejects.toThrow(ProcessingError)
+
+      // MKV has no content type of its own, so the extension decides
+      expect(created?.content_type).toBe('video/mp4')
+    })
+
+    test('should accept a WebM without a container duration', async () => {
+      // As written by browser MediaRecorder
+      setProbe({
+        format: { format_name: 'matroska,webm' },
+        streams: [{ codec_type: 'video', codec_name: 'vp8' }],
+      })
+
+      await expect(removeBackground()).rejects.toThrow(ProcessingError)
+
+      expect(created?.content_type).toBe('video/webm')
+    })
+
+    test('should check maxDurationSeconds against the stream duration', async () => {
+      setProbe({
+        format: { format_name: 'matroska,webm' },
+        streams: [{ codec_type: 'video', codec_name: 'vp9', duration: '42.0' }],
+      })
+
+      await expect(
+        removeBackground({ validate: { maxDurationSeconds: 30 } })
+      ).rejects.toMatchObject({ constructor: ValidationError, field: 'duration' })
+      expect(requests).toEqual([])
+    })
+
+    test('should reject buffers over the size limit without probing them', async () => {
+      fs.rmSync(probeOutput)
+      const video = Video.fromBuffer(Buffer.alloc(2048), { contentType: 'video/mp4' })
+
+      await expect(
+        video.removeBackground({ client, ctx, validate: { maxSizeBytes: 1024 } })
+      ).rejects.toMatchObject({ constructor: ValidationError, field: 'size' })
+      expect(requests).toEqual([])
+    })
+
+    test.each(['take$2.mp4', 'clip`id`.mp4', 'say "hi".mp4'])(
+      'should probe %s by its exact name',
+      async name => {
+        sourcePath = path.join(workDir, name)
+        fs.writeFileSync(sourcePath, Buffer.alloc(1024, 1))
+
+        await expect(removeBackground()).rejects.toThrow(ProcessingError)
+
+        expect(created?.content_type).toBe('video/mp4')
+      }
+    )
+
+    test('should skip validation when disabled', async () => {
+      fs.rmSync(probeOutput)
+
+      await expect(removeBackground({ validate: false })).rejects.toThrow(ProcessingError)
+
+      expect(created?.content_type).toBe('video/mp4')
+    })
+  })
+})
@@ -0,0 +1,233 @@
+/**
+ * Tests for the bundled mock API server, using a renderer that copies the upload
+ * instead of running FFmpeg
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  VideoBGRemoverClient,
+  Video,
+  MediaContext,
+  RemoveBGOptions,
+  Prefer,
+  ProcessingError,
+  InsufficientCreditsError,
+  JobStateError,
+  ApiError,
+  WebhookListener,
+  WebhookEvent,
+} from '../../src/index'
+import { MockApiServer, MockRenderer } from '../../src/testing'
+
+const silentLogger = { info: () => {}, debug: () => {}, warn: () => {}, error: () => {} }
+
+/**
+ * Bills one second per KiB and returns the source as the result
+ */
+const copyRenderer: MockRenderer = {
+  probe: sourcePath => fs.statSync(sourcePath).size / 1024,
+  async render(job) {
+    const format = job.background.transparent_format || 'webm_vp9'
+    const output = path.join(job.outputDir, format === 'webm_vp9' ? 'result.webm' : 'result.mp4')
+    fs.mkdirSync(job.outputDir, { recursive: true })
+    fs.copyFileSync(job.sourcePath, output)
+    return output
+  },
+}
+
+describe('MockApiServer', () => {
+  let mock: MockApiServer
+  let client: VideoBGRemoverClient
+  let workDir: string
+  let sourcePath: string
+  let ctx: MediaContext
+
+  const source = Buffer.alloc(10 * 1024, 5)
+
+  beforeEach(async () => {
+    mock = await MockApiServer.start({ renderer: copyRenderer, credits: 100 })
+    client = new VideoBGRemoverClient('test_key', { baseUrl: mock.url, retry: false })
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vbr_mock_test_'))
+    fs.mkdirSync(path.join(workDir, 'tmp'))
+    sourcePath = path.join(workDir, 'input.mp4')
+    fs.writeFileSync(sourcePath, source)
+    ctx = {
+      tmp: path.join(workDir, 'tmp'),
+      ffmpeg: 'ffmpeg',
+      ffprobe: 'ffprobe',
+      logger: silentLogger,
+    } as unknown as MediaContext
+  })
+
+  afterEach(async () => {
+    await mock.close()
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  const removeBackground = (extra: Record<string, unknown> = {}) =>
+    Video.open(sourcePath).removeBackground({
+      client,
+      options: new RemoveBGOptions(Prefer.WEBM_VP9),
+      waitPollSeconds: 0.02,
+      ctx,
+      // The source is not a real video
+      validate: false,
+      ...extra,
+    })
+
+  const uploadJob = async () => {
+    const job = await client.createJobFile({ filename: 'input.mp4', content_type: 'video/mp4' })
+    await client.uploadVideo(job.uploadUrl, source, { contentType: 'video/mp4' })
+    return job.id
+  }
+
+  test('should run the full pipeline and bill the credits', async () => {
+    const foreground = await removeBackground()
+
+    expect(fs.readFileSync(foreground.primaryPath).equals(source)).toBe(true)
+    expect(mock.requests).toEqual([
+      'POST /v1/jobs',
+      'PUT /upload/job_1',
+      'POST /v1/jobs/job_1/start',
+      expect.stringMatching('GET /v1/jobs/job_1/status'),
+      ...mock.requests.slice(4, -1),
+      'GET /results/job_1/result.webm',
+    ])
+    expect(mock.job('job_1')).toMatchObject({ status: 'completed', length_seconds: 10 })
+    await expect(client.credits()).resolves.toEqual({
+      totalCredits: 100,
+      remainingCredits: 90,
+      usedCredits: 10,
+    })
+  })
+
+  test('should reject starts without enough credits', async () => {
+    mock.remainingCredits = 5
+    const jobId = await uploadJob()
+
+    await expect(client.startJob(jobId)).rejects.toThrow(InsufficientCreditsError)
+    expect(mock.job(jobId)?.status).toBe('uploaded')
+  })
+
+  test('should fail scripted jobs with their message', async () => {
+    mock.nextJob({ fail: 'Model crashed' })
+
+    await expect(removeBackground()).rejects.toThrow(ProcessingError)
+    expect(mock.job('job_1')).toMatchObject({ status: 'failed', message: 'Model crashed' })
+  })
+
+  test('should keep slow jobs processing until finished or cancelled', async () => {
+    mock.nextJob({ processingSeconds: Infinity }).nextJob({ processingSeconds: Infinity })
+    const first = await uploadJob()
+    const second = await uploadJob()
+    await client.startJob(first)
+    await client.startJob(second)
+
+    await expect(client.deleteJob(first)).rejects.toThrow(JobStateError)
+    await mock.finishJob(first)
+    await client.cancelJob(second)
+
+    expect(mock.job(first)?.status).toBe('completed')
+    expect(mock.job(second)?.status).toBe('cancelled')
+    const listed: string[] = []
+    for await (const job of client.listJobs({ pageSize: 1 })) {
+      listed.push(`${job.id}:${job.status}`)
+    }
+    expect(listed).toEqual([`${second}:cancelled`, `${first}:completed`])
+    expect(mock.requests.filter(request => request === 'GET /v1/jobs')).toHaveLength(2)
+  })
+
+  test('should accept resumable uploads in ranged parts', async () => {
+    const job = await client.createJobFile({ filename: 'input.mp4', content_type: 'video/mp4' })
+    const put = (range: string, body?: Buffer) =>
+      client.transport.request({
+        method: 'PUT',
+        url: job.uploadUrl,
+        headers: { 'Content-Range': range },
+        body,
+        followRedirects: false,
+      })
+
+    const partial = await put('bytes 0-4095/10240', source.subarray(0, 4096))
+    const query = await put('bytes */10240')
+    const done = await put('bytes 4096-10239/10240', source.subarray(4096))
+
+    expect(partial).toMatchObject({ status: 308, headers: { range: 'bytes=0-4095' } })
+    expect(query).toMatchObject({ status: 308, headers: { range: 'bytes=0-4095' } })
+    expect(done.status).toBe(200)
+    expect(mock.job(job.id)?.status).toBe('uploaded')
+  })
+
+  test('should survive clients dropping a download', async () => {
+    const large = Buffer.alloc(8 * 1024 * 1024, 7)
+    mock.remainingCredits = 100_000
+    const job = await client.createJobFile({ filename: 'input.mp4', content_type: 'video/mp4' })
+    await client.uploadVideo(job.uploadUrl, large, { contentType: 'video/mp4' })
+    await client.startJob(job.id)
+    await mock.finishJob(job.id)
+
+    const controller = new AbortController()
+    const response = await client.transport.request({
+      method: 'GET',
+      url: mock.job(job.id)!.processed_video_url!,
+      responseType: 'stream',
+      signal: controller.signal,
+    })
+    const drain = async () => {
+      for await (const chunk of response.data as AsyncIterable<Uint8Array>) {
+        if (chunk.byteLength > 0) {
+          controller.abort()
+        }
+      }
+    }
+    await expect(drain()).rejects.toThrow()
+    await mock.settled()
+
+    await expect(client.credits()).resolves.toMatchObject({ usedCredits: 8192 })
+  })
+
+  test('should deliver signed webhooks', async () => {
+    const listener = await WebhookListener.start({ secret: 'whsec_test' })
+    const events: WebhookEvent[] = []
+    listener.subscribe('job_1', event => events.push(event))
+    try {
+      await removeBackground({
+        events: listener,
+        webhookUrl: `http://localhost:${listener.port}/`,
+        fallbackPollSeconds: 5,
+      })
+      await mock.settled()
+
+      expect(events.map(event => event.type)).toEqual(['job.started', 'job.completed'])
+      expect(mock.webhookDeliveries.map(delivery => delivery.statusCode)).toEqual([200, 200])
+    } finally {
+      await listener.close()
+    }
+  })
+
+  test('should fail injected requests', async () => {
+    mock.failRequests({ method: 'GET', path: '/v1/credits', status: 503, times: 2 })
+    const retrying = new VideoBGRemoverClient('test_key', {
+      baseUrl: mock.url,
+      retry: { maxAttempts: 3, baseDelay: 1, maxDelay: 1 },
+    })
+
+    await expect(client.credits()).rejects.toMatchObject({
+      constructor: ApiError,
+      statusCode: 503,
+    })
+    await expect(retrying.credits()).resolves.toMatchObject({ remainingCredits: 100 })
+    expect(mock.requests).toEqual(['GET /v1/credits', 'GET /v1/credits', 'GET /v1/credits'])
+  })
+
+  test('should reject requests without the configured API key', async () => {
+    await mock.close()
+    mock = await MockApiServer.start({ renderer: copyRenderer, apiKey: 'secret' })
+
+    await expect(
+      new VideoBGRemoverClient('wrong', { baseUrl: mock.url, retry: false }).credits()
+    ).rejects.toMatchObject({ statusCode: 401 })
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Tests for the HTTP transports against a local server
+ */
+
+import * as http from 'http'
+import { AddressInfo, Socket } from 'net'
+import {
+  AxiosTransport,
+  FetchTransport,
+  Transport,
+  TransportBody,
+  TransportError,
+  AbortError,
+  VideoBGRemoverClient,
+  JobNotFoundError,
+} from '../../src/index'
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: Buffer) => void
+
+async function* chunks(...parts: string[]): AsyncIterable<Uint8Array> {
+  for (const part of parts) {
+    yield new TextEncoder().encode(part)
+  }
+}
+
+async function readAll(data: unknown): Promise<string> {
+  const parts: Buffer[] = []
+  for await (const chunk of data as AsyncIterable<Uint8Array>) {
+    parts.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(parts).toString('utf-8')
+}
+
+// fetch is global from Node 18
+const transports: Array<[string, () => Transport]> = [
+  ['AxiosTransport', () => new AxiosTransport()],
+]
+if (typeof globalThis.fetch === 'function') {
+  transports.push(['FetchTransport', () => new FetchTransport()])
+}
+
+describe.each(transports)('%s', (_name, createTransport: () => Transport) => {
+  let server: http.Server
+  const sockets = new Set<Socket>()
+  let baseUrl: string
+  let handler: Handler
+  let transport: Transport
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const parts: Buffer[] = []
+      req.on('data', chunk => parts.push(chunk))
+      req.on('end', () => handler(req, res, Buffer.concat(parts)))
+    })
+    server.on('connection', socket => {
+      sockets.add(socket)
+      socket.once('close', () => sockets.delete(socket))
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    // server.closeAllConnections() needs Node 18.2
+    for (const socket of sockets) {
+      socket.destroy()
+    }
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    transport = createTransport()
+  })
+
+  test('should parse JSON and resolve for error statuses', async () => {
+    handler = (_req, res) => {
+      res.writeHead(404, { 'Content-Type': 'application/json', 'X-Request-Id': 'req_1' })
+      res.end(JSON.stringify({ error: 'Not found' }))
+    }
+
+    const response = await transport.request({ method: 'GET', url: `${baseUrl}/missing` })
+
+    expect(response.status).toBe(404)
+    expect(response.data).toEqual({ error: 'Not found' })
+    expect(response.headers['x-request-id']).toBe('req_1')
+  })
+
+  const bodies: Array<[string, () => TransportBody]> = [
+    ['a string', () => 'hello world'],
+    ['bytes', () => new TextEncoder().encode('hello world')],
+    ['an async iterable', () => chunks('hello ', 'world')],
+  ]
+  // Blob and web streams are global from Node 18
+  if (typeof Blob === 'function') {
+    bodies.push(
+      ['a Blob', () => new Blob(['hello ', 'world'])],
+      ['a ReadableStream', () => new Blob(['hello world']).stream()]
+    )
+  }
+
+  test.each(bodies)('should send %s as the request body', async (_kind, createBody) => {
+    let received = ''
+    let headers: http.IncomingHttpHeaders = {}
+    handler = (req, res, body) => {
+      received = body.toString('utf-8')
+      headers = req.headers
+      res.writeHead(201)
+      res.end()
+    }
+
+    const response = await transport.request({
+      method: 'PUT',
+      url: `${baseUrl}/upload`,
+      headers: { 'Content-Type': 'video/mp4', 'Content-Length': '11' },
+      body: createBody(),
+    })
+
+    expect(response.status).toBe(201)
+    expect(received).toBe('hello world')
+    expect(headers['content-type']).toBe('video/mp4')
+  })
+
+  test('should stream successful bodies and parse failed ones', async () => {
+    handler = (req, res) => {
+      if (req.url === '/ok') {
+        res.writeHead(200, { 'Content-Type': 'video/webm' })
+        res.write('part one, ')
+        res.end('part two')
+      } else {
+        res.writeHead(503, { 'Content-Type': 'application/json' })
+        res.end(JSON.stringify({ error: 'Unavailable' }))
+      }
+    }
+
+    const ok = await transport.request({
+      method: 'GET',
+      url: `${baseUrl}/ok`,
+      responseType: 'stream',
+    })
+    const failed = await transport.request({
+      method: 'GET',
+      url: `${baseUrl}/fail`,
+      responseType: 'stream',
+    })
+
+    expect(await readAll(ok.data)).toBe('part one, part two')
+    expect(failed.status).toBe(503)
+    expect(failed.data).toEqual({ error: 'Unavailable' })
+  })
+
+  test('should return redirects unfollowed when asked', async () => {
+    handler = (req, res) => {
+      if (req.url === '/upload') {
+        res.writeHead(308, { Range: 'bytes=0-99', Location: `${baseUrl}/elsewhere` })
+        res.end()
+      } else {
+        res.writeHead(200)
+        res.end('followed')
+      }
+    }
+
+    const response = await transport.request({
+      method: 'PUT',
+      url: `${baseUrl}/upload`,
+      headers: { 'Content-Length': '0' },
+      followRedirects: false,
+    })
+
+    expect(response.status).toBe(308)
+    expect(response.headers['range']).toBe('bytes=0-99')
+  })
+
+  test('should fail with TransportError on timeout', async () => {
+    handler = () => undefined
+
+    await expect(
+      transport.request({ method: 'GET', url: `${baseUrl}/slow`, timeout: 50 })
+    ).rejects.toThrow(TransportError)
+  })
+
+  test('should report the network error code when the connection is refused', async () => {
+    const closed = http.createServer()
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve))
+    const port = (closed.address() as AddressInfo).port
+    await new Promise(resolve => closed.close(resolve))
+
+    await expect(
+      transport.request({ method: 'GET', url: `http://127.0.0.1:${port}/` })
+    ).rejects.toMatchObject({ name: 'TransportError', code: 'ECONNREFUSED' })
+  })
+
+  test('should reject with AbortError when the signal aborts', async () => {
+    handler = () => undefined
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+
+    await expect(
+      transport.request({ method: 'GET', url: `${baseUrl}/slow`, signal: controller.signal })
+    ).rejects.toThrow(AbortError)
+  })
+
+  test('should carry API calls for the client', async () => {
+    handler = (req, res) => {
+      res.writeHead(req.url === '/v1/credits' ? 200 : 404, {
+        'Content-Type': 'application/json',
+      })
+      res.end(
+        JSON.stringify(
+          req.url === '/v1/credits'
+            ? { total_credits: 10, remaining_credits: 4, used_credits: 6 }
+            : { error: 'Job not found' }
+        )
+      )
+    }
+
+    const client = new VideoBGRemoverClient('test_key', { baseUrl, transport, retry: false })
+
+    expect(await client.credits()).toEqual({
+      totalCredits: 10,
+      remainingCredits: 4,
+      usedCredits: 6,
+    })
+    await expect(client.status('missing')).rejects.toThrow(JobNotFoundError)
+  })
+})
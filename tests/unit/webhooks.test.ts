@@ -0,0 +1,393 @@
+/**
+ * Tests for webhook signature verification and event parsing
+ */
+
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import axios from 'axios'
+import {
+  constructWebhookEvent,
+  createWebhookHandler,
+  createExpressWebhookHandler,
+  createFastifyWebhookHandler,
+  parseWebhookEvent,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  ValidationError,
+  WebhookSignatureError,
+  WebhookEvent,
+  WebhookEventHub,
+  WebhookListener,
+} from '../../src/index'
+import { ExpressLikeRequest } from '../../src/webhooks'
+
+const secret = 'whsec_test'
+
+const completedBody = JSON.stringify({
+  job_id: 'job_123',
+  user_id: 'user_1',
+  status: 'completed',
+  file_name: 'video.mp4',
+  source: 'api',
+})
+
+const signedHeaders = (body: string) => ({
+  'content-type': 'application/json',
+  'x-videobgremover-signature': signWebhookPayload(body, secret),
+})
+
+describe('Webhook signature verification', () => {
+  test('should accept a valid signature', () => {
+    const header = signWebhookPayload(completedBody, secret)
+    expect(() => verifyWebhookSignature(completedBody, header, secret)).not.toThrow()
+  })
+
+  test('should accept Buffer bodies and header arrays', () => {
+    const header = signWebhookPayload(completedBody, secret)
+    expect(() => verifyWebhookSignature(Buffer.from(completedBody), [header], secret)).not.toThrow()
+  })
+
+  test('should reject a missing signature', () => {
+    expect(() => verifyWebhookSignature(completedBody, undefined, secret)).toThrow(
+      WebhookSignatureError
+    )
+  })
+
+  test('should reject a malformed signature header', () => {
+    expect(() => verifyWebhookSignature(completedBody, 'garbage', secret)).toThrow(
+      'Malformed webhook signature header'
+    )
+  })
+
+  test('should reject a signature made with another secret', () => {
+    const header = signWebhookPayload(completedBody, 'whsec_other')
+    expect(() => verifyWebhookSignature(completedBody, header, secret)).toThrow(
+      WebhookSignatureError
+    )
+  })
+
+  test('should reject a tampered body', () => {
+    const header = signWebhookPayload(completedBody, secret)
+    const tampered = completedBody.replace('job_123', 'job_999')
+    expect(() => verifyWebhookSignature(tampered, header, secret)).toThrow(WebhookSignatureError)
+  })
+
+  test('should reject replayed deliveries outside the tolerance', () => {
+    const timestamp = Math.floor(Date.now() / 1000) - 600
+    const header = signWebhookPayload(completedBody, secret, timestamp)
+
+    expect(() => verifyWebhookSignature(completedBody, header, secret)).toThrow(
+      'outside the tolerance'
+    )
+    expect(() =>
+      verifyWebhookSignature(completedBody, header, secret, { tolerance: 900 })
+    ).not.toThrow()
+  })
+
+  test('should accept any matching v1 signature during secret rotation', () => {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const oldSignature = signWebhookPayload(completedBody, 'whsec_old', timestamp).split(',')[1]
+    const header = `${signWebhookPayload(completedBody, secret, timestamp)},${oldSignature}`
+
+    expect(() => verifyWebhookSignature(completedBody, header, 'whsec_old')).not.toThrow()
+    expect(() => verifyWebhookSignature(completedBody, header, secret)).not.toThrow()
+  })
+})
+
+describe('Webhook event parsing', () => {
+  test('should parse a completed event', () => {
+    const event = parseWebhookEvent(completedBody)
+
+    expect(event.type).toBe('job.completed')
+    expect(event.jobId).toBe('job_123')
+    expect(event.userId).toBe('user_1')
+    expect(event.fileName).toBe('video.mp4')
+    expect(event.source).toBe('api')
+    expect(event.payload.status).toBe('completed')
+  })
+
+  test('should parse started and failed events', () => {
+    const started = parseWebhookEvent(
+      JSON.stringify({ job_id: 'job_1', user_id: 'u', status: 'started' })
+    )
+    const failed = parseWebhookEvent(
+      JSON.stringify({ job_id: 'job_1', user_id: 'u', status: 'failed', error_message: 'Bad' })
+    )
+
+    expect(started.type).toBe('job.started')
+    expect(failed.type).toBe('job.failed')
+    if (failed.type === 'job.failed') {
+      expect(failed.errorMessage).toBe('Bad')
+    }
+  })
+
+  test('should reject invalid JSON', () => {
+    expect(() => parseWebhookEvent('{not json')).toThrow(ValidationError)
+  })
+
+  test('should reject payloads without a job ID', () => {
+    expect(() => parseWebhookEvent(JSON.stringify({ status: 'completed' }))).toThrow(
+      expect.objectContaining({ field: 'job_id' })
+    )
+  })
+
+  test('should reject unknown statuses', () => {
+    expect(() =>
+      parseWebhookEvent(JSON.stringify({ job_id: 'job_1', status: 'exploded' }))
+    ).toThrow(expect.objectContaining({ field: 'status' }))
+  })
+
+  test('should verify and parse in one step', () => {
+    const header = signWebhookPayload(completedBody, secret)
+
+    expect(constructWebhookEvent(completedBody, header, secret).type).toBe('job.completed')
+    expect(() => constructWebhookEvent(completedBody, header, 'whsec_other')).toThrow(
+      WebhookSignatureError
+    )
+  })
+})
+
+describe('Webhook handlers', () => {
+  describe('createWebhookHandler (node http)', () => {
+    let server: http.Server
+    let baseUrl: string
+    let received: WebhookEvent[]
+    let failCallback: boolean
+
+    beforeAll(async () => {
+      server = http.createServer(
+        createWebhookHandler({
+          secret,
+          maxBodySize: 4096,
+          onCompleted: event => {
+            if (failCallback) {
+              throw new Error('Database down')
+            }
+            received.push(event)
+          },
+          onFailed: event => {
+            received.push(event)
+          },
+        })
+      )
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve))
+    })
+
+    beforeEach(() => {
+      received = []
+      failCallback = false
+    })
+
+    const post = (body: string, headers: Record<string, string>) =>
+      axios.post(baseUrl, body, { headers, validateStatus: () => true, transformRequest: [] })
+
+    test('should dispatch verified events to typed callbacks', async () => {
+      const response = await post(completedBody, signedHeaders(completedBody))
+
+      expect(response.status).toBe(200)
+      expect(response.data).toEqual({ received: true })
+      expect(received).toHaveLength(1)
+      expect(received[0]!.type).toBe('job.completed')
+    })
+
+    test('should answer 400 for a bad signature without calling callbacks', async () => {
+      const response = await post(completedBody, {
+        'x-videobgremover-signature': signWebhookPayload(completedBody, 'whsec_other'),
+      })
+
+      expect(response.status).toBe(400)
+      expect(received).toEqual([])
+    })
+
+    test('should answer 400 for a malformed payload', async () => {
+      const body = JSON.stringify({ status: 'completed' })
+      const response = await post(body, signedHeaders(body))
+
+      expect(response.status).toBe(400)
+      expect(response.data.error).toContain('job_id')
+    })
+
+    test('should answer 500 when a callback throws so the delivery is retried', async () => {
+      failCallback = true
+      const response = await post(completedBody, signedHeaders(completedBody))
+
+      expect(response.status).toBe(500)
+      expect(response.data.error).toContain('Database down')
+    })
+
+    test('should answer 413 for oversized bodies', async () => {
+      const body = JSON.stringify({ job_id: 'job_1', status: 'completed', pad: 'x'.repeat(8192) })
+      const response = await post(body, signedHeaders(body))
+
+      expect(response.status).toBe(413)
+    })
+
+    test('should answer 405 for other methods', async () => {
+      const response = await axios.get(baseUrl, { validateStatus: () => true })
+      expect(response.status).toBe(405)
+    })
+
+    test('should answer 500 instead of rejecting when verification throws', async () => {
+      const misconfigured = http.createServer(
+        createWebhookHandler({ secret: undefined as unknown as string })
+      )
+      await new Promise<void>(resolve => misconfigured.listen(0, '127.0.0.1', resolve))
+      try {
+        const port = (misconfigured.address() as AddressInfo).port
+        const response = await axios.post(`http://127.0.0.1:${port}/`, completedBody, {
+          headers: signedHeaders(completedBody),
+          validateStatus: () => true,
+          transformRequest: [],
+        })
+
+        expect(response.status).toBe(500)
+      } finally {
+        await new Promise(resolve => misconfigured.close(resolve))
+      }
+    })
+  })
+
+  describe('framework adapters', () => {
+    const fakeResponse = () => {
+      const result: { status?: number; body?: unknown } = {}
+      const res = {
+        status(code: number) {
+          result.status = code
+          return res
+        },
+        json(body: unknown) {
+          result.body = body
+        },
+      }
+      return { res, result }
+    }
+
+    test('should handle Express requests with a raw Buffer body', async () => {
+      const onCompleted = jest.fn()
+      const handler = createExpressWebhookHandler({ secret, onCompleted })
+      const { res, result } = fakeResponse()
+      const req = {
+        method: 'POST',
+        headers: signedHeaders(completedBody),
+        body: Buffer.from(completedBody),
+      } as unknown as ExpressLikeRequest
+
+      await handler(req, res)
+
+      expect(result.status).toBe(200)
+      expect(onCompleted).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job_123' }))
+    })
+
+    test('should refuse Express bodies that were already parsed', async () => {
+      const onCompleted = jest.fn()
+      const handler = createExpressWebhookHandler({ secret, onCompleted })
+      const { res, result } = fakeResponse()
+      const req = {
+        method: 'POST',
+        headers: signedHeaders(completedBody),
+        body: JSON.parse(completedBody),
+      } as unknown as ExpressLikeRequest
+
+      await handler(req, res)
+
+      expect(result.status).toBe(500)
+      expect(onCompleted).not.toHaveBeenCalled()
+    })
+
+    test('should handle Fastify requests with a rawBody', async () => {
+      const onEvent = jest.fn()
+      const handler = createFastifyWebhookHandler({ secret, onEvent })
+      const result: { code?: number; payload?: unknown } = {}
+      const reply = {
+        code(statusCode: number) {
+          result.code = statusCode
+          return reply
+        },
+        send(payload: unknown) {
+          result.payload = payload
+        },
+      }
+
+      await handler({ headers: signedHeaders(completedBody), rawBody: completedBody }, reply)
+
+      expect(result.code).toBe(200)
+      expect(result.payload).toEqual({ received: true })
+      expect(onEvent).toHaveBeenCalledTimes(1)
+    })
+  })
+})
+
+describe('Webhook listener', () => {
+  const completedEvent = parseWebhookEvent(completedBody)
+
+  test('should replay an event that arrived before subscribing', async () => {
+    const hub = new WebhookEventHub()
+    hub.dispatch(completedEvent)
+
+    const received = await new Promise<WebhookEvent>(resolve => hub.subscribe('job_123', resolve))
+
+    expect(received.type).toBe('job.completed')
+  })
+
+  test('should stop notifying after unsubscribe', () => {
+    const hub = new WebhookEventHub()
+    const listener = jest.fn()
+    const unsubscribe = hub.subscribe('job_123', listener)
+
+    unsubscribe()
+    hub.dispatch(completedEvent)
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  test('should receive signed deliveries over HTTP', async () => {
+    const listener = await WebhookListener.start({ secret, host: '127.0.0.1' })
+    try {
+      expect(listener.webhookUrl).toBeUndefined()
+      const received = new Promise<WebhookEvent>(resolve => listener.subscribe('job_123', resolve))
+
+      const response = await axios.post(`http://127.0.0.1:${listener.port}/`, completedBody, {
+        headers: signedHeaders(completedBody),
+      })
+
+      expect(response.status).toBe(200)
+      expect((await received).jobId).toBe('job_123')
+    } finally {
+      await listener.close()
+    }
+  })
+
+  test('should reject deliveries with a bad signature', async () => {
+    const listener = await WebhookListener.start({ secret: 'other', host: '127.0.0.1' })
+    try {
+      const onEvent = jest.fn()
+      listener.subscribe('job_123', onEvent)
+
+      const response = await axios.post(`http://127.0.0.1:${listener.port}/`, completedBody, {
+        headers: signedHeaders(completedBody),
+        validateStatus: () => true,
+      })
+
+      expect(response.status).toBe(400)
+      expect(onEvent).not.toHaveBeenCalled()
+    } finally {
+      await listener.close()
+    }
+  })
+
+  test('should use the public URL when given', async () => {
+    const listener = await WebhookListener.start({
+      secret,
+      host: '127.0.0.1',
+      publicUrl: 'https://hooks.example.com/vbr',
+    })
+    await listener.close()
+
+    expect(listener.webhookUrl).toBe('https://hooks.example.com/vbr')
+  })
+})
@@ -1,7 +1,13 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    // Client-only build for edge and serverless runtimes
+    client: 'src/edge.ts',
+    // Mock API server for tests
+    testing: 'src/testing/index.ts',
+  },
   format: ['cjs', 'esm'],
   dts: true,
   splitting: false,